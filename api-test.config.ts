@@ -1,12 +1,13 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import type { AuthConfig } from './utils/auth-providers';
 dotenv.config({ path: path.resolve(__dirname, '.env') });
 
 /**
  * API Test Configuration
  * 
  * This configuration file manages environment-specific settings for the API testing framework.
- * It supports multiple environments (dev, qa, prod) with different API URLs and user credentials.
+ * It supports multiple environments (dev, qa, prod, local) with different API URLs and user credentials.
  * 
  * Environment Selection:
  * - Default: 'dev' environment
@@ -16,6 +17,7 @@ dotenv.config({ path: path.resolve(__dirname, '.env') });
  * - Default (dev): npm test
  * - QA environment: TEST_ENV=qa npm test
  * - Production: TEST_ENV=prod npm test
+ * - Local mock server: TEST_ENV=local npm test
  */
 
 /* Get environment from process.env.TEST_ENV or default to 'dev' */
@@ -28,14 +30,83 @@ console.log('Test environment is: ' + env)
  * These values are used for the 'dev' environment by default.
  */
 const config = {
+    /* Selected environment name (TEST_ENV), e.g. part of token cache keys */
+    environment: env,
+
     /* Base API URL for the Conduit API - dev environment */
     apiUrl: 'https://conduit-api.bondaracademy.com/api',
     
+    /* Conduit web app used by the ui-tests project (Playwright baseURL) */
+    uiUrl: 'https://conduit.bondaracademy.com',
+
+    /* localStorage key the web app reads its JWT from; the storageState fixture fills it with the API token */
+    uiTokenStorageKey: 'jwtToken',
+
     /* Test user email for authentication - dev environment */
     userEmail: 'lmparris21@test.com',
     
     /* Test user password for authentication - dev environment */
-    userPassword: 'apitesting123!'
+    userPassword: 'apitesting123!',
+
+    /* Authentication scheme used by the authToken fixture (see utils/auth-providers.ts).
+       'conduit' logs in with userEmail/userPassword; other APIs use bearer, apiKey, basic, oauth2 or none */
+    auth: { type: 'conduit' } as AuthConfig,
+
+    /* Named users for role-based tests: api.as('reader') / apiAs('reader').
+       Each entry is an auth scheme like config.auth; 'author' is the default user above */
+    users: {
+        author: { type: 'conduit' },
+        reader: { type: 'conduit', email: 'pwapiuser@test.com', password: 'Welcome' }
+    } as Record<string, AuthConfig>,
+
+    /* Reuse login tokens across workers and runs until shortly before they expire (TOKEN_CACHE=true).
+       Global setup pre-warms the cache for the default and named users */
+    tokenCache: process.env.TOKEN_CACHE === 'true',
+
+    /* Token cache file (holds live tokens, git-ignored) */
+    tokenCacheFile: './.auth/tokens.json',
+
+    /* Boot the in-process Conduit mock server in global setup (local environment only) */
+    useMockServer: false,
+
+    /* Default retry policy for transient failures (idempotent verbs only, override per call with .retry()) */
+    retry: {
+        attempts: 3,
+        backoff: 500,
+        on: [502, 503, 504]
+    },
+
+    /* Default timeout in milliseconds for each HTTP attempt (override per call with .timeout()) */
+    requestTimeout: 10000,
+
+    /* When to attach the API log transcript to the HTML report: 'always', 'on-failure' or 'never' */
+    attachApiLogs: 'always' as 'always' | 'on-failure' | 'never',
+
+    /* Write each test's API traffic as a HAR 1.2 file, merged per run in global teardown (EXPORT_HAR=true) */
+    exportHar: process.env.EXPORT_HAR === 'true',
+
+    /* Put real secrets into the "Reproduce with" curl command of failure messages (keep false on shared CI) */
+    curlWithSecrets: process.env.CURL_WITH_SECRETS === 'true',
+
+    /* String formats inferred when generating response schemas (any of 'date-time', 'email', 'uri', 'uuid') */
+    schemaFormats: ['date-time', 'email', 'uri', 'uuid'],
+
+    /* OpenAPI 3 spec (JSON) used by shouldMatchOpenApi(); set OPENAPI_SPEC= (empty) to fall back to response-schemas/ */
+    openApiSpec: process.env.OPENAPI_SPEC ?? './openapi/conduit.json',
+
+    /* Record every API call for the coverage reporter (endpoint x status matrix against openApiSpec) */
+    apiCoverage: process.env.API_COVERAGE === 'true',
+
+    /* Learning run: collect every shouldMatchSchema response and merge them into schemas at the end (LEARN_SCHEMAS=true) */
+    learnSchemas: process.env.LEARN_SCHEMAS === 'true',
+
+    /* Extra APILogger redaction rules, added to the defaults (Authorization, Cookie, password, token, JWTs) */
+    logRedaction: {
+        headers: [] as string[],
+        fields: [] as string[],
+        jsonPaths: [] as string[],
+        patterns: [] as RegExp[]
+    }
 }
 
 /**
@@ -47,6 +118,7 @@ const config = {
 if(env === 'qa'){
     config.userEmail = 'pwapiuser@test.com',
     config.userPassword = 'Welcome'
+    config.users.reader = { type: 'conduit', email: 'lmparris21@test.com', password: 'apitesting123!' }
 }
 
 /* Production Environment Configuration */
@@ -56,6 +128,16 @@ if(env === 'prod'){
     // }
     config.userEmail = process.env.PROD_USER_EMAIL as string,
     config.userPassword = process.env.PROD_USER_PASSWORD as string
+    config.users.reader = { type: 'conduit', email: process.env.PROD_READER_EMAIL as string, password: process.env.PROD_READER_PASSWORD as string }
+}
+
+/* Local Environment Configuration - served by mock-server/conduit-mock-server.ts */
+if(env === 'local'){
+    config.apiUrl = `http://localhost:${process.env.MOCK_API_PORT || 3333}/api`,
+    config.userEmail = 'localuser@test.com',
+    config.userPassword = 'localpassword',
+    config.useMockServer = true
+    config.users.reader = { type: 'conduit', email: 'localreader@test.com', password: 'localpassword' }
 }
 
 /* Export the configuration object for use throughout the framework */
@@ -72,11 +154,24 @@ export {config}
  * Production Environment:  
  * TEST_ENV=prod npx playwright test tests/smokeTest.spec.ts
  * 
+ * Local Mock Server (offline, MOCK_API_PORT overrides the default port 3333):
+ * TEST_ENV=local npx playwright test tests/smokeTest.spec.ts
+ * 
+ * Authentication for a non-Conduit service (set inside the environment's block):
+ * config.auth = { type: 'bearer', token: process.env.API_TOKEN as string }
+ * config.auth = { type: 'apiKey', name: 'X-API-Key', value: process.env.API_KEY as string, in: 'header' }
+ * config.auth = { type: 'basic', username: process.env.API_USER as string, password: process.env.API_PASSWORD as string }
+ * config.auth = { type: 'oauth2', tokenUrl: 'https://auth.example.com/oauth/token',
+ *                 clientId: process.env.CLIENT_ID as string, clientSecret: process.env.CLIENT_SECRET as string }
+ * 
  * You can also export the variable for the entire session:
  * export TEST_ENV=qa
  * npm test
  * 
  * Configuration Access:
  * - Import: import { config } from '../api-test.config'
- * - Usage: config.apiUrl, config.userEmail, config.userPassword
+ * - Usage: config.environment, config.apiUrl, config.uiUrl, config.uiTokenStorageKey, config.userEmail, config.userPassword, config.auth, config.users,
+ *          config.tokenCache, config.tokenCacheFile, config.retry, config.requestTimeout,
+ *          config.logRedaction, config.attachApiLogs, config.exportHar, config.curlWithSecrets,
+ *          config.schemaFormats, config.learnSchemas, config.openApiSpec, config.apiCoverage
  */
\ No newline at end of file
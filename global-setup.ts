@@ -0,0 +1,53 @@
+import { config } from './api-test.config';
+import { ConduitMockServer } from './mock-server/conduit-mock-server';
+import { clearSchemaSamples } from './utils/schema-validator';
+import { warmTokenCache } from './utils/auth-providers';
+import { clearTokenCache } from './utils/token-cache';
+
+/**
+ * Playwright Global Setup
+ *
+ * Runs once in the test runner process before any worker starts.
+ * When the selected environment uses the local mock server (TEST_ENV=local),
+ * the Conduit mock server is booted here so every worker can reach it through
+ * config.apiUrl. The returned function is Playwright's global teardown and
+ * stops the server once all tests have finished.
+ *
+ * For every other environment the mock server is not started and tests hit the remote API.
+ *
+ * Schema learning runs (config.learnSchemas) start from an empty sample set.
+ *
+ * With config.tokenCache, the default and named users log in here (unless the cache
+ * already holds fresh tokens), so workers reuse the cached tokens instead of logging in.
+ */
+export default async function globalSetup() {
+    if (config.learnSchemas) await clearSchemaSamples()
+
+    if (!config.useMockServer) {
+        if (config.tokenCache) await warmTokenCache()
+        return
+    }
+
+    /* Named Conduit users from config.users (e.g. reader) get an account too, named after the user */
+    const namedUsers = Object.entries(config.users).flatMap(([name, auth]) =>
+        auth.type === 'conduit' && auth.email && auth.password ? [{ email: auth.email, password: auth.password, username: `local${name}` }] : [])
+
+    /* Listen on the port encoded in config.apiUrl so workers and server agree */
+    const server = new ConduitMockServer({
+        port: Number(new URL(config.apiUrl).port),
+        users: [{ email: config.userEmail, password: config.userPassword, username: 'localuser' }, ...namedUsers]
+    })
+    const url = await server.start()
+    console.log('Conduit mock server is running at: ' + url)
+
+    /* The mock server signs tokens with a new secret on every start, so earlier local tokens are void */
+    if (config.tokenCache) {
+        await clearTokenCache(config.environment)
+        await warmTokenCache()
+    }
+
+    /* Global teardown: stop the mock server after the whole run */
+    return async () => {
+        await server.stop()
+    }
+}
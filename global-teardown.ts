@@ -0,0 +1,41 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FullConfig } from '@playwright/test';
+import { config } from './api-test.config';
+import { mergeHarFiles, TEST_HAR_FILE_NAME } from './utils/har-exporter';
+import { applyLearnedSchemas } from './utils/schema-validator';
+
+/**
+ * Playwright Global Teardown
+ *
+ * Runs once after all workers have finished. When HAR export is enabled
+ * (config.exportHar), merges every per-test HAR file from the output
+ * directory into a single merged-api-traffic.har for the whole run.
+ *
+ * In schema learning runs (config.learnSchemas) the collected response samples
+ * are merged and applied to the schema files.
+ */
+export default async function globalTeardown(fullConfig: FullConfig) {
+    if (config.learnSchemas) await applyLearnedSchemas()
+    if (config.exportHar) await mergeRunHarFiles(fullConfig)
+}
+
+/**
+ * Merges the per-test HAR files of this run into merged-api-traffic.har.
+ */
+async function mergeRunHarFiles(fullConfig: FullConfig) {
+
+    const outputDir = fullConfig.projects[0]?.outputDir
+    if (!outputDir) return
+
+    /* Collect the per-test HAR files written during this run */
+    const files = await fs.readdir(outputDir, { recursive: true }).catch(() => [] as string[])
+    const harFiles = files
+        .filter(file => path.basename(file) === TEST_HAR_FILE_NAME)
+        .map(file => path.join(outputDir, file))
+    if (harFiles.length === 0) return
+
+    const mergedPath = path.join(outputDir, 'merged-api-traffic.har')
+    await mergeHarFiles(harFiles, mergedPath)
+    console.log(`Merged ${harFiles.length} HAR files into: ${mergedPath}`)
+}
@@ -17,11 +17,11 @@ export async function createToken(email: string, password: string) {
     /* Create a new request context for this authentication request */
     const context = await request.newContext()
     
-    /* Initialize logger for tracking API requests */
-    const logger = new APILogger()
+    /* Initialize logger for tracking API requests (credentials are redacted) */
+    const logger = new APILogger(config.logRedaction)
     
-    /* Create request handler instance with context, base URL, and logger */
-    const api = new RequestHandler(context, config.apiUrl, logger)
+    /* Create request handler instance with context, base URL, logger and default timeout */
+    const api = new RequestHandler(context, config.apiUrl, logger, '', { timeout: config.requestTimeout })
 
     try {
         /* Make POST request to login endpoint with user credentials */
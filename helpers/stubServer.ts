@@ -0,0 +1,48 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Local HTTP stub started by startStubServer().
+ */
+export type StubServer = {
+    /* Base URL to pass to RequestHandler, e.g. 'http://localhost:41234' */
+    baseUrl: string
+
+    /* Drops open (e.g. hung) connections and stops the server */
+    close(): Promise<void>
+}
+
+/**
+ * Starts a local HTTP server on a free port, for tests that need behaviour the API
+ * cannot be made to show (transient 503s, hung requests, non-JSON bodies, token endpoints).
+ *
+ * @param handler - Request listener answering every request; the default echoes the URL and headers as JSON
+ * @returns Promise<StubServer> - Base URL of the server and a close() for the test's finally block
+ *
+ * Example:
+ * const stub = await startStubServer((req, res) => { res.writeHead(503); res.end() })
+ * try {
+ *     await new RequestHandler(request, stub.baseUrl, new APILogger()).path('/flaky').getRequest(503)
+ * } finally {
+ *     await stub.close()
+ * }
+ */
+export async function startStubServer(handler: http.RequestListener = echoRequest): Promise<StubServer> {
+    const server = http.createServer(handler)
+    await new Promise<void>(resolve => server.listen(0, 'localhost', resolve))
+    const { port } = server.address() as AddressInfo
+
+    return {
+        baseUrl: `http://localhost:${port}`,
+        close: async () => {
+            server.closeAllConnections()
+            await new Promise<void>(resolve => server.close(() => resolve()))
+        }
+    }
+}
+
+/* Default handler: answers with the URL and headers the request arrived with */
+function echoRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ url: req.url, headers: req.headers }))
+}
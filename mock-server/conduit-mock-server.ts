@@ -0,0 +1,726 @@
+/**
+ * Conduit Mock Server Module
+ *
+ * This module provides a local, in-memory stand-in for the Conduit API so the
+ * whole suite can run offline or while the shared backend is unavailable.
+ * It implements the same endpoints and JSON shapes that are described by the
+ * files under response-schemas/.
+ *
+ * Supported Endpoints (all under /api):
+ * - POST   /users/login                    - Authenticate and receive a token
+ * - POST   /users                          - Register a new user
+ * - GET    /user, PUT /user                - Current user
+ * - GET    /profiles/:username             - Profile lookup
+ * - POST   /profiles/:username/follow      - Follow / unfollow (DELETE)
+ * - GET    /articles, GET /articles/feed   - Article lists with tag/author/favorited filters
+ * - GET    /articles/:slug                 - Single article
+ * - POST   /articles, PUT/DELETE /articles/:slug
+ * - POST   /articles/:slug/favorite        - Favorite / unfavorite (DELETE)
+ * - GET    /articles/:slug/comments        - Comments list, create (POST), delete (DELETE /:id)
+ * - GET    /tags                           - Popular tags
+ *
+ * Behaviour Notes:
+ * - Tokens are HS256 JWTs carrying an `exp` claim, sent as 'Token <jwt>'
+ * - articlesCount mirrors the shared backend and reports the size of the returned page
+ * - Validation errors use the Conduit { errors: { field: [message] } } shape with status 422
+ *
+ * Usage:
+ * const server = new ConduitMockServer({ port: 3333, users: [{ email, password, username }] })
+ * await server.start()
+ * // ... run tests against http://localhost:3333/api
+ * await server.stop()
+ */
+
+import http from 'http'
+import crypto from 'crypto'
+
+/**
+ * A user account that the mock server knows about at startup.
+ */
+export type MockUserSeed = {
+    email: string
+    password: string
+    username: string
+}
+
+/**
+ * Options accepted by ConduitMockServer.
+ */
+export type ConduitMockServerOptions = {
+    /* TCP port to listen on (0 picks a free port) */
+    port: number
+
+    /* Accounts that can log in immediately, in addition to the seeded article author */
+    users?: MockUserSeed[]
+
+    /* Lifetime of issued tokens in seconds */
+    tokenTtlSeconds?: number
+}
+
+type StoredUser = {
+    id: number
+    email: string
+    password: string
+    username: string
+    bio: string | null
+    image: string
+    following: Set<number>
+}
+
+type StoredArticle = {
+    id: number
+    slug: string
+    title: string
+    description: string
+    body: string
+    tagList: string[]
+    createdAt: string
+    updatedAt: string
+    authorId: number
+    favoritedBy: Set<number>
+}
+
+type StoredComment = {
+    id: number
+    articleId: number
+    body: string
+    createdAt: string
+    updatedAt: string
+    authorId: number
+}
+
+type MockResponse = {
+    status: number
+    body?: any
+    headers?: Record<string, string>
+}
+
+type RouteContext = {
+    params: Record<string, string>
+    query: URLSearchParams
+    body: any
+    currentUser: StoredUser | undefined
+}
+
+type Route = {
+    method: string
+    pattern: RegExp
+    paramNames: string[]
+    handler: (context: RouteContext) => MockResponse
+}
+
+/* Default avatar returned by the shared backend for users without a custom image */
+const DEFAULT_IMAGE = 'https://conduit-api.bondaracademy.com/images/smiley-cyrus.jpeg'
+
+/* Usernames must be between these lengths (inclusive), matching the shared backend */
+const USERNAME_MIN_LENGTH = 3
+const USERNAME_MAX_LENGTH = 20
+
+/* Maximum number of entries returned by GET /tags */
+const POPULAR_TAGS_LIMIT = 10
+
+/**
+ * ConduitMockServer Class
+ *
+ * An in-process HTTP server backed by in-memory collections. Each instance keeps
+ * its own state, so starting a fresh server always yields the same seeded data.
+ */
+export class ConduitMockServer {
+
+    /* Underlying Node HTTP server */
+    private server: http.Server
+
+    /* Options supplied at construction time */
+    private options: ConduitMockServerOptions
+
+    /* Secret used to sign issued tokens */
+    private tokenSecret = crypto.randomBytes(32).toString('hex')
+
+    /* In-memory data stores */
+    private users: StoredUser[] = []
+    private articles: StoredArticle[] = []
+    private comments: StoredComment[] = []
+
+    /* Incrementing identifier sequence shared by all stores */
+    private nextId = 1
+
+    /* Route table built once in the constructor */
+    private routes: Route[] = []
+
+    /**
+     * Constructor for ConduitMockServer
+     *
+     * @param options - Port, seeded users and token settings
+     */
+    constructor(options: ConduitMockServerOptions) {
+        this.options = options
+        this.server = http.createServer((req, res) => this.handle(req, res))
+        this.registerRoutes()
+        this.seed()
+    }
+
+    /**
+     * Starts listening on the configured port.
+     *
+     * @returns Promise<string> - The base API URL (e.g., 'http://localhost:3333/api')
+     */
+    async start() {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject)
+            this.server.listen(this.options.port, 'localhost', () => resolve())
+        })
+        return this.url
+    }
+
+    /**
+     * Stops the server and closes any open keep-alive connections.
+     */
+    async stop() {
+        this.server.closeAllConnections()
+        await new Promise<void>((resolve, reject) => {
+            this.server.close(error => error ? reject(error) : resolve())
+        })
+    }
+
+    /**
+     * Base API URL of the running server.
+     */
+    get url() {
+        const address = this.server.address()
+        const port = typeof address === 'object' && address ? address.port : this.options.port
+        return `http://localhost:${port}/api`
+    }
+
+    /**
+     * Registers every supported endpoint. Paths use ':name' placeholders
+     * which are converted to regular expressions once at startup.
+     */
+    private registerRoutes() {
+        this.route('POST', '/users/login', context => this.login(context))
+        this.route('POST', '/users', context => this.register(context))
+        this.route('GET', '/user', context => this.getCurrentUser(context))
+        this.route('PUT', '/user', context => this.updateCurrentUser(context))
+
+        this.route('GET', '/profiles/:username', context => this.getProfile(context))
+        this.route('POST', '/profiles/:username/follow', context => this.setFollowing(context, true))
+        this.route('DELETE', '/profiles/:username/follow', context => this.setFollowing(context, false))
+
+        this.route('GET', '/articles/feed', context => this.listFeed(context))
+        this.route('GET', '/articles', context => this.listArticles(context))
+        this.route('POST', '/articles', context => this.createArticle(context))
+        this.route('GET', '/articles/:slug', context => this.getArticle(context))
+        this.route('PUT', '/articles/:slug', context => this.updateArticle(context))
+        this.route('DELETE', '/articles/:slug', context => this.deleteArticle(context))
+
+        this.route('POST', '/articles/:slug/favorite', context => this.setFavorite(context, true))
+        this.route('DELETE', '/articles/:slug/favorite', context => this.setFavorite(context, false))
+
+        this.route('GET', '/articles/:slug/comments', context => this.listComments(context))
+        this.route('POST', '/articles/:slug/comments', context => this.createComment(context))
+        this.route('DELETE', '/articles/:slug/comments/:id', context => this.deleteComment(context))
+
+        this.route('GET', '/tags', () => this.listTags())
+    }
+
+    private route(method: string, path: string, handler: Route['handler']) {
+        const paramNames: string[] = []
+        const source = path.replace(/:(\w+)/g, (_, name) => {
+            paramNames.push(name)
+            return '([^/]+)'
+        })
+        this.routes.push({ method, pattern: new RegExp(`^/api${source}/?$`), paramNames, handler })
+    }
+
+    /**
+     * Seeds a default author with enough tagged articles for the list and
+     * tags endpoints to behave like the shared backend.
+     */
+    private seed() {
+        const author = this.addUser({ email: 'conduit-author@test.com', password: 'conduit-author', username: 'Artem Bondar' })
+        for (const user of this.options.users ?? []) {
+            this.addUser(user)
+        }
+
+        const seedTags = ['Test', 'GitHub', 'Coding', 'Git', 'Zoom', 'Enroll', 'YouTube', 'Blog', 'Bondar Academy', 'qa']
+        for (let index = 0; index < 10; index++) {
+            this.addArticle(author, {
+                title: `Seeded article ${index + 1}`,
+                description: `Description for seeded article ${index + 1}`,
+                body: `Body for seeded article ${index + 1}`,
+                tagList: ['Test', ...seedTags.slice(1, index + 1).slice(-2)]
+            })
+        }
+    }
+
+    /**
+     * Entry point for every incoming HTTP request.
+     */
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        let response: MockResponse
+        try {
+            response = this.dispatch(req, await this.readBody(req))
+        } catch (error) {
+            response = { status: 500, body: { errors: { body: [error.message] } } }
+        }
+
+        res.setHeader('Access-Control-Allow-Origin', '*')
+        if (response.body === undefined) {
+            res.writeHead(response.status, response.headers).end()
+            return
+        }
+        res.writeHead(response.status, { ...response.headers, 'Content-Type': 'application/json; charset=utf-8' })
+        res.end(JSON.stringify(response.body))
+    }
+
+    private dispatch(req: http.IncomingMessage, rawBody: string): MockResponse {
+        const url = new URL(req.url ?? '/', 'http://localhost')
+        const method = req.method === 'HEAD' ? 'GET' : req.method ?? 'GET'
+
+        /* Answer CORS preflights for any path, like the shared backend does */
+        if (method === 'OPTIONS') {
+            return {
+                status: 204,
+                headers: {
+                    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS',
+                    'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+                }
+            }
+        }
+
+        let body: any = {}
+        if (rawBody) {
+            try {
+                body = JSON.parse(rawBody)
+            } catch (error) {
+                return { status: 400, body: { errors: { body: ['is not valid JSON'] } } }
+            }
+        }
+
+        for (const route of this.routes) {
+            const match = route.method === method && route.pattern.exec(url.pathname)
+            if (!match) continue
+
+            const params: Record<string, string> = {}
+            route.paramNames.forEach((name, index) => params[name] = decodeURIComponent(match[index + 1]))
+            return route.handler({
+                params,
+                query: url.searchParams,
+                body,
+                currentUser: this.authenticate(req.headers.authorization)
+            })
+        }
+
+        return notFound('route')
+    }
+
+    private readBody(req: http.IncomingMessage) {
+        return new Promise<string>((resolve, reject) => {
+            const chunks: Buffer[] = []
+            req.on('data', chunk => chunks.push(chunk))
+            req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+            req.on('error', reject)
+        })
+    }
+
+    /* ---------------------------------------------------------------------
+     * Authentication
+     * ------------------------------------------------------------------- */
+
+    private issueToken(user: StoredUser) {
+        const now = Math.floor(Date.now() / 1000)
+        const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+        const payload = base64Url(JSON.stringify({
+            id: user.id,
+            username: user.username,
+            email: user.email,
+            iat: now,
+            exp: now + (this.options.tokenTtlSeconds ?? 24 * 60 * 60)
+        }))
+        return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`
+    }
+
+    private sign(data: string) {
+        return crypto.createHmac('sha256', this.tokenSecret).update(data).digest('base64url')
+    }
+
+    /**
+     * Resolves the user from an 'Authorization: Token <jwt>' header.
+     * Returns undefined for missing, malformed, forged or expired tokens.
+     */
+    private authenticate(authorization: string | undefined) {
+        const token = authorization?.match(/^(?:Token|Bearer)\s+(.+)$/i)?.[1]
+        if (!token) return undefined
+
+        const [header, payload, signature] = token.split('.')
+        if (!header || !payload || signature !== this.sign(`${header}.${payload}`)) return undefined
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+        if (claims.exp * 1000 <= Date.now()) return undefined
+
+        return this.users.find(user => user.id === claims.id)
+    }
+
+    /* ---------------------------------------------------------------------
+     * Users and profiles
+     * ------------------------------------------------------------------- */
+
+    private login({ body }: RouteContext): MockResponse {
+        const email = body?.user?.email
+        const password = body?.user?.password
+        const user = this.users.find(candidate => candidate.email === email && candidate.password === password)
+        if (!user) {
+            return { status: 403, body: { errors: { 'email or password': ['is invalid'] } } }
+        }
+        return { status: 200, body: { user: this.toUser(user) } }
+    }
+
+    private register({ body }: RouteContext): MockResponse {
+        const { email, password, username } = body?.user ?? {}
+        const errors: Record<string, string[]> = {}
+
+        if (!email) {
+            addError(errors, 'email', "can't be blank")
+        } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            addError(errors, 'email', 'is invalid')
+        } else if (this.users.some(user => user.email === email)) {
+            addError(errors, 'email', 'has already been taken')
+        }
+
+        if (!password) {
+            addError(errors, 'password', "can't be blank")
+        }
+
+        if (!username) {
+            addError(errors, 'username', "can't be blank")
+        } else if (username.length < USERNAME_MIN_LENGTH) {
+            addError(errors, 'username', `is too short (minimum is ${USERNAME_MIN_LENGTH} characters)`)
+        } else if (username.length > USERNAME_MAX_LENGTH) {
+            addError(errors, 'username', `is too long (maximum is ${USERNAME_MAX_LENGTH} characters)`)
+        } else if (this.users.some(user => user.username === username)) {
+            addError(errors, 'username', 'has already been taken')
+        }
+
+        if (Object.keys(errors).length > 0) {
+            return { status: 422, body: { errors } }
+        }
+
+        const user = this.addUser({ email, password, username })
+        return { status: 201, body: { user: this.toUser(user) } }
+    }
+
+    private getCurrentUser({ currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+        return { status: 200, body: { user: this.toUser(currentUser) } }
+    }
+
+    private updateCurrentUser({ currentUser, body }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const changes = body?.user ?? {}
+        for (const field of ['email', 'password', 'username', 'bio', 'image'] as const) {
+            if (changes[field] !== undefined) {
+                (currentUser as any)[field] = changes[field]
+            }
+        }
+        return { status: 200, body: { user: this.toUser(currentUser) } }
+    }
+
+    private getProfile({ params, currentUser }: RouteContext): MockResponse {
+        const user = this.users.find(candidate => candidate.username === params.username)
+        if (!user) return notFound('profile')
+        return { status: 200, body: { profile: this.toProfile(user, currentUser) } }
+    }
+
+    private setFollowing({ params, currentUser }: RouteContext, following: boolean): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const user = this.users.find(candidate => candidate.username === params.username)
+        if (!user) return notFound('profile')
+
+        following ? currentUser.following.add(user.id) : currentUser.following.delete(user.id)
+        return { status: 200, body: { profile: this.toProfile(user, currentUser) } }
+    }
+
+    /* ---------------------------------------------------------------------
+     * Articles
+     * ------------------------------------------------------------------- */
+
+    private listArticles({ query, currentUser }: RouteContext): MockResponse {
+        const tag = query.get('tag')
+        const author = query.get('author')
+        const favorited = query.get('favorited')
+
+        const articles = this.articles.filter(article => {
+            if (tag && !article.tagList.includes(tag)) return false
+            if (author && this.findUser(article.authorId).username !== author) return false
+            if (favorited) {
+                const favoritingUser = this.users.find(user => user.username === favorited)
+                if (!favoritingUser || !article.favoritedBy.has(favoritingUser.id)) return false
+            }
+            return true
+        })
+        return this.articlePage(articles, query, currentUser)
+    }
+
+    private listFeed({ query, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+        const articles = this.articles.filter(article => currentUser.following.has(article.authorId))
+        return this.articlePage(articles, query, currentUser)
+    }
+
+    private articlePage(articles: StoredArticle[], query: URLSearchParams, currentUser: StoredUser | undefined): MockResponse {
+        const limit = Number(query.get('limit') ?? 20)
+        const offset = Number(query.get('offset') ?? 0)
+
+        const page = [...articles]
+            .sort((first, second) => second.id - first.id)
+            .slice(offset, offset + limit)
+            .map(article => this.toArticle(article, currentUser))
+
+        return { status: 200, body: { articles: page, articlesCount: page.length } }
+    }
+
+    private getArticle({ params, currentUser }: RouteContext): MockResponse {
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+        return { status: 200, body: { article: this.toArticle(article, currentUser) } }
+    }
+
+    private createArticle({ body, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const { title, description, body: articleBody, tagList } = body?.article ?? {}
+        const errors: Record<string, string[]> = {}
+        if (!title) addError(errors, 'title', "can't be blank")
+        if (!description) addError(errors, 'description', "can't be blank")
+        if (!articleBody) addError(errors, 'body', "can't be blank")
+        if (Object.keys(errors).length > 0) {
+            return { status: 422, body: { errors } }
+        }
+
+        const article = this.addArticle(currentUser, { title, description, body: articleBody, tagList: tagList ?? [] })
+        return { status: 201, body: { article: this.toArticle(article, currentUser) } }
+    }
+
+    private updateArticle({ params, body, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+        if (article.authorId !== currentUser.id) return forbidden('article')
+
+        const changes = body?.article ?? {}
+        if (changes.title !== undefined && changes.title !== article.title) {
+            article.title = changes.title
+            article.slug = this.createSlug(changes.title)
+        }
+        if (changes.description !== undefined) article.description = changes.description
+        if (changes.body !== undefined) article.body = changes.body
+        if (changes.tagList !== undefined) article.tagList = changes.tagList
+        article.updatedAt = new Date().toISOString()
+
+        return { status: 200, body: { article: this.toArticle(article, currentUser) } }
+    }
+
+    private deleteArticle({ params, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+        if (article.authorId !== currentUser.id) return forbidden('article')
+
+        this.articles = this.articles.filter(candidate => candidate !== article)
+        this.comments = this.comments.filter(comment => comment.articleId !== article.id)
+        return { status: 204 }
+    }
+
+    private setFavorite({ params, currentUser }: RouteContext, favorited: boolean): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+
+        favorited ? article.favoritedBy.add(currentUser.id) : article.favoritedBy.delete(currentUser.id)
+        return { status: 200, body: { article: this.toArticle(article, currentUser) } }
+    }
+
+    /* ---------------------------------------------------------------------
+     * Comments and tags
+     * ------------------------------------------------------------------- */
+
+    private listComments({ params, currentUser }: RouteContext): MockResponse {
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+
+        const comments = this.comments
+            .filter(comment => comment.articleId === article.id)
+            .map(comment => this.toComment(comment, currentUser))
+        return { status: 200, body: { comments } }
+    }
+
+    private createComment({ params, body, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+
+        const commentBody = body?.comment?.body
+        if (!commentBody) {
+            return { status: 422, body: { errors: { body: ["can't be blank"] } } }
+        }
+
+        const now = new Date().toISOString()
+        const comment: StoredComment = {
+            id: this.nextId++,
+            articleId: article.id,
+            body: commentBody,
+            createdAt: now,
+            updatedAt: now,
+            authorId: currentUser.id
+        }
+        this.comments.push(comment)
+        return { status: 200, body: { comment: this.toComment(comment, currentUser) } }
+    }
+
+    private deleteComment({ params, currentUser }: RouteContext): MockResponse {
+        if (!currentUser) return unauthorized()
+
+        const article = this.findArticle(params.slug)
+        if (!article) return notFound('article')
+
+        const comment = this.comments.find(candidate => candidate.articleId === article.id && candidate.id === Number(params.id))
+        if (!comment) return notFound('comment')
+        if (comment.authorId !== currentUser.id) return forbidden('comment')
+
+        this.comments = this.comments.filter(candidate => candidate !== comment)
+        return { status: 204 }
+    }
+
+    /**
+     * Returns tags ordered by how many articles use them, most popular first.
+     */
+    private listTags(): MockResponse {
+        const counts = new Map<string, number>()
+        for (const article of [...this.articles].sort((first, second) => first.id - second.id)) {
+            for (const tag of article.tagList) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1)
+            }
+        }
+        const tags = [...counts.entries()]
+            .sort((first, second) => second[1] - first[1])
+            .slice(0, POPULAR_TAGS_LIMIT)
+            .map(([tag]) => tag)
+        return { status: 200, body: { tags } }
+    }
+
+    /* ---------------------------------------------------------------------
+     * Store helpers and serialisers
+     * ------------------------------------------------------------------- */
+
+    private addUser(seed: MockUserSeed) {
+        const user: StoredUser = {
+            id: this.nextId++,
+            email: seed.email,
+            password: seed.password,
+            username: seed.username,
+            bio: null,
+            image: DEFAULT_IMAGE,
+            following: new Set()
+        }
+        this.users.push(user)
+        return user
+    }
+
+    private addArticle(author: StoredUser, fields: { title: string, description: string, body: string, tagList: string[] }) {
+        const now = new Date().toISOString()
+        const article: StoredArticle = {
+            id: this.nextId++,
+            slug: this.createSlug(fields.title),
+            ...fields,
+            createdAt: now,
+            updatedAt: now,
+            authorId: author.id,
+            favoritedBy: new Set()
+        }
+        this.articles.push(article)
+        return article
+    }
+
+    private createSlug(title: string) {
+        const base = title.trim().replace(/[^\w]+/g, '-').replace(/^-+|-+$/g, '')
+        return `${base}-${this.nextId++}`
+    }
+
+    private findUser(id: number) {
+        return this.users.find(user => user.id === id) as StoredUser
+    }
+
+    private findArticle(slug: string) {
+        return this.articles.find(article => article.slug === slug)
+    }
+
+    private toUser(user: StoredUser) {
+        return {
+            email: user.email,
+            username: user.username,
+            bio: user.bio,
+            image: user.image,
+            token: this.issueToken(user)
+        }
+    }
+
+    private toProfile(user: StoredUser, viewer: StoredUser | undefined) {
+        return {
+            username: user.username,
+            bio: user.bio,
+            image: user.image,
+            following: viewer?.following.has(user.id) ?? false
+        }
+    }
+
+    private toArticle(article: StoredArticle, viewer: StoredUser | undefined) {
+        return {
+            slug: article.slug,
+            title: article.title,
+            description: article.description,
+            body: article.body,
+            tagList: article.tagList,
+            createdAt: article.createdAt,
+            updatedAt: article.updatedAt,
+            favorited: viewer ? article.favoritedBy.has(viewer.id) : false,
+            favoritesCount: article.favoritedBy.size,
+            author: this.toProfile(this.findUser(article.authorId), viewer)
+        }
+    }
+
+    private toComment(comment: StoredComment, viewer: StoredUser | undefined) {
+        return {
+            id: comment.id,
+            createdAt: comment.createdAt,
+            updatedAt: comment.updatedAt,
+            body: comment.body,
+            author: this.toProfile(this.findUser(comment.authorId), viewer)
+        }
+    }
+
+}
+
+function base64Url(value: string) {
+    return Buffer.from(value, 'utf-8').toString('base64url')
+}
+
+function addError(errors: Record<string, string[]>, field: string, message: string) {
+    (errors[field] ??= []).push(message)
+}
+
+function unauthorized(): MockResponse {
+    return { status: 401, body: { errors: { body: ['Unauthorized'] } } }
+}
+
+function forbidden(resource: string): MockResponse {
+    return { status: 403, body: { errors: { [resource]: ['forbidden'] } } }
+}
+
+function notFound(resource: string): MockResponse {
+    return { status: 404, body: { errors: { [resource]: ['not found'] } } }
+}
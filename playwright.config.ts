@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { config } from './api-test.config';
 
 /**
  * Read environment variables from file.
@@ -16,9 +17,11 @@ export default defineConfig({
   fullyParallel: false,
   retries: 0,
   workers: 1,
-  reporter: [['html'], ['list']],
+  reporter: [['html'], ['list'], ['./utils/coverage-reporter.ts', { outputFolder: 'api-coverage-report' }]],  /* coverage report only when API_COVERAGE=true */
+  globalSetup: './global-setup.ts',  /* boots the Conduit mock server when TEST_ENV=local */
+  globalTeardown: './global-teardown.ts',  /* merges per-test HAR files and learned schemas when enabled */
   use: {
-    baseURL: 'https://conduit.bondaracademy.com/',
+    baseURL: config.uiUrl,  /* UI tests start logged in with the API token (storageState fixture in utils/fixtures.ts) */
     trace: 'retain-on-failure',
   },
 
@@ -0,0 +1,72 @@
+/**
+ * Response Schema Types
+ *
+ * GENERATED from response-schemas/*_schema.json - do not edit by hand.
+ * Regenerate with: npm run generate:types
+ */
+
+export interface GetArticles {
+    articles: {
+        slug: string
+        title: string
+        description: string
+        body: string
+        tagList: string[]
+        createdAt: string
+        updatedAt: string
+        favorited: boolean
+        favoritesCount: number
+        author: Author
+    }[]
+    articlesCount: number
+}
+
+export interface PostArticles {
+    article: {
+        slug: string
+        title: string
+        description: string
+        body: string
+        tagList: unknown[]
+        createdAt: string
+        updatedAt: string
+        favorited: boolean
+        favoritesCount: number
+        author: Author
+    }
+}
+
+export interface PutArticles {
+    article: {
+        slug: string
+        title: string
+        description: string
+        body: string
+        tagList: unknown[]
+        createdAt: string
+        updatedAt: string
+        favorited: boolean
+        favoritesCount: number
+        author: Author
+    }
+}
+
+export interface Author {
+    username: string
+    bio: null
+    image: string
+    following: boolean
+}
+
+export interface GetTags {
+    tags: string[]
+}
+
+/* Body type of each schema file, keyed by '{dirName}/{fileName}' as passed to shouldMatchSchema */
+export interface ResponseSchemaTypes {
+    'articles/GET_articles': GetArticles
+    'articles/POST_articles': PostArticles
+    'articles/PUT_articles': PutArticles
+    'shared/author': Author
+    'tags/GET_tags': GetTags
+}
@@ -0,0 +1,30 @@
+/**
+ * Generates response-schemas/types.d.ts from the JSON schemas in response-schemas/.
+ *
+ * Usage:
+ * npm run generate:types   - rewrite the declaration file
+ * npm run check:types      - exit with code 1 when the committed file is stale (for CI)
+ */
+
+import { checkSchemaTypes, writeSchemaTypes, SCHEMA_TYPES_OUTPUT } from '../utils/schema-typegen'
+
+async function main() {
+    if (process.argv.includes('--check')) {
+        const result = await checkSchemaTypes()
+        if (!result.upToDate) {
+            console.error(`${result.outputPath} is out of date with response-schemas/. Run: npm run generate:types`)
+            process.exitCode = 1
+            return
+        }
+        console.log(`${result.outputPath} is up to date`)
+        return
+    }
+
+    await writeSchemaTypes()
+    console.log(`Generated ${SCHEMA_TYPES_OUTPUT}`)
+}
+
+main().catch(error => {
+    console.error(error.message)
+    process.exitCode = 1
+})
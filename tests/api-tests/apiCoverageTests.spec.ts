@@ -0,0 +1,41 @@
+/**
+ * API coverage matrix
+ *
+ * Purpose:
+ * - Verify recorded calls are normalised to documented path templates and status keys
+ * - Verify undocumented endpoints/statuses and the coverage summary are reported, with undocumented
+ *   paths relative to the API base path and id-like segments collapsed
+ */
+import { test, expect } from '@playwright/test';
+import { buildCoverage, loadEndpoints, renderCoverageHtml } from '../../utils/api-coverage';
+
+const baseUrl = 'http://localhost:3333/api'
+
+test('Coverage matrix counts calls per endpoint template and status', async () => {
+    const endpoints = await loadEndpoints('./openapi/conduit.json')
+    const coverage = buildCoverage(endpoints, [
+        { method: 'GET', url: `${baseUrl}/articles?limit=10&offset=0`, statusCode: 200 },
+        { method: 'GET', url: `${baseUrl}/articles/feed`, statusCode: 200 },
+        { method: 'PUT', url: `${baseUrl}/articles/Hello-World-1`, statusCode: 200 },
+        { method: 'PUT', url: `${baseUrl}/articles/Hello-World-2`, statusCode: 200 },
+        { method: 'PUT', url: `${baseUrl}/articles/Hello-World-2`, statusCode: 404 },
+        { method: 'GET', url: `${baseUrl}/unknown`, statusCode: 404 },
+        { method: 'GET', url: `${baseUrl}/widgets/42`, statusCode: 200 },
+        { method: 'GET', url: `${baseUrl}/widgets/7f3c2a9e-1b4d-4c8e-9a2f-5d6e7f8a9b0c`, statusCode: 200 }
+    ], './openapi/conduit.json')
+
+    const row = (method: string, pathTemplate: string) =>
+        coverage.endpoints.find(endpoint => endpoint.method === method && endpoint.pathTemplate === pathTemplate)
+
+    expect(row('GET', '/articles').statuses['200']).toEqual({ documented: true, hits: 1 })
+    expect(row('GET', '/articles/feed').statuses['200'].hits).toBe(1)
+    expect(row('GET', '/articles/{slug}').statuses['200'].hits).toBe(0)
+    expect(row('PUT', '/articles/{slug}').statuses['200'].hits).toBe(2)
+    expect(row('PUT', '/articles/{slug}').statuses['404']).toEqual({ documented: false, hits: 1 })
+    expect(row('GET', '/unknown')).toMatchObject({ documented: false, statuses: { '404': { documented: false, hits: 1 } } })
+    expect(row('GET', '/widgets/{id}')).toMatchObject({ documented: false, statuses: { '200': { documented: false, hits: 2 } } })
+
+    expect(coverage.summary.endpoints).toEqual({ covered: 3, total: endpoints.length })
+    expect(coverage.summary.undocumentedCalls).toBe(4)
+    expect(renderCoverageHtml(coverage)).toContain('<td>PUT</td><td>/articles/{slug}</td>')
+})
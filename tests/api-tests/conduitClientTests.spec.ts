@@ -0,0 +1,37 @@
+/**
+ * Typed Conduit client
+ *
+ * Purpose:
+ * - Verify the conduit fixture covers an article lifecycle across resources
+ *   (articles, favorites, comments, profiles, tags) with typed responses
+ */
+import { test } from '../../utils/fixtures';
+import { expect } from '../../utils/custom-expect';
+import { getNewRandomArticle } from '../../utils/data-generator';
+
+test('Article lifecycle through the typed client', async ({ conduit }) => {
+    const { article: newArticle } = getNewRandomArticle()
+    const { article } = await conduit.articles.create(newArticle)
+    expect(article.title).shouldEqual(newArticle.title)
+
+    const favorited = await conduit.favorites.add(article.slug)
+    expect(favorited.article.favoritesCount).shouldEqual(1)
+
+    const { comment } = await conduit.comments.create(article.slug, { body: 'Typed comment' })
+    const { comments } = await conduit.comments.list(article.slug)
+    expect(comments.map(item => item.id)).toContain(comment.id)
+    await conduit.comments.delete(article.slug, comment.id)
+
+    const { profile } = await conduit.profiles.get(article.author.username)
+    expect(profile.username).shouldEqual(article.author.username)
+
+    const unfavorited = await conduit.favorites.remove(article.slug)
+    expect(unfavorited.article.favorited).shouldEqual(false)
+
+    const { article: updated } = await conduit.articles.update(article.slug, { description: 'Updated through the client' })
+    expect(updated.description).shouldEqual('Updated through the client')
+    await conduit.articles.delete(updated.slug)
+
+    const { tags } = await conduit.tags.list()
+    expect(tags.length).shouldBeLessThanOrEqual(10)
+})
@@ -0,0 +1,89 @@
+/**
+ * APILogger behaviour
+ *
+ * Purpose:
+ * - Verify secrets never reach the stored logs that feed error messages and reports
+ * - Verify recorded traffic converts to HAR 1.2
+ * - Verify logged requests render as ready-to-run curl commands
+ */
+import { test, expect } from '@playwright/test';
+import { APILogger } from '../../utils/logger';
+import { buildHar } from '../../utils/har-exporter';
+
+test('Default redaction masks auth headers, credentials and tokens', async () => {
+    const logger = new APILogger()
+    logger.logRequest('POST', 'https://api.example.com/api/users/login?api_key=secret-key&limit=10',
+        { 'Authorization': 'Token abc', 'Content-Type': 'application/json' },
+        { user: { email: 'user@test.com', password: 'plaintext-password' } })
+    logger.logResponse(200, { user: { email: 'user@test.com', token: 'eyJhbGciOiJIUzI1NiJ9.eyJpZCI6MX0.c2lnbmF0dXJl' } })
+
+    const logs = logger.getRecentLogs()
+    expect(logs).not.toContain('Token abc')
+    expect(logs).not.toContain('plaintext-password')
+    expect(logs).not.toContain('secret-key')
+    expect(logs).not.toContain('eyJhbGciOiJIUzI1NiJ9')
+    expect(logs).toContain('user@test.com')
+    expect(logs).toContain('limit=10')
+    expect(logs).toContain('application/json')
+})
+
+test('Custom redaction rules are added to the defaults', async () => {
+    const logger = new APILogger({
+        headers: ['X-Session'],
+        jsonPaths: ['articles.*.author.email'],
+        patterns: [/sk_live_\w+/g]
+    })
+    logger.logRequest('GET', 'https://api.example.com/api/articles', { 'X-Session': 'session-id', 'Authorization': 'Token abc' })
+    logger.logResponse(200, { articles: [{ author: { email: 'author@test.com', username: 'author' }, body: 'key sk_live_123' }] })
+
+    const logs = logger.getRecentLogs()
+    expect(logs).not.toContain('session-id')
+    expect(logs).not.toContain('Token abc')
+    expect(logs).not.toContain('author@test.com')
+    expect(logs).not.toContain('sk_live_123')
+    expect(logs).toContain('"username": "author"')
+})
+
+test('Patterns without the g flag mask every match', async () => {
+    const logger = new APILogger({ patterns: [/sk_live_\w+/] })
+    logger.logResponse(200, { body: 'old key sk_live_123, new key sk_live_456' })
+
+    const logs = logger.getRecentLogs()
+    expect(logs).not.toContain('sk_live_123')
+    expect(logs).not.toContain('sk_live_456')
+    expect(logs).toContain('old key [REDACTED], new key [REDACTED]')
+})
+
+test('Recorded traffic converts to a HAR 1.2 log', async () => {
+    const logger = new APILogger()
+    logger.logRequest('POST', 'https://api.example.com/api/articles?limit=10', { 'Content-Type': 'application/json' }, { article: { title: 'Title' } })
+    logger.logResponse(201, { article: { slug: 'title-1' } }, { statusText: 'Created', headers: { 'content-type': 'application/json' }, durationMs: 42 })
+    logger.logRequest('GET', 'https://api.example.com/api/tags', {})
+
+    const har = buildHar(logger.getLogEntries(), 'HAR test')
+
+    expect(har.log.version).toBe('1.2')
+    expect(har.log.entries).toHaveLength(2)
+    expect(har.log.entries[0].time).toBe(42)
+    expect(har.log.entries[0].request.queryString).toEqual([{ name: 'limit', value: '10' }])
+    expect(har.log.entries[0].request.postData?.text).toBe('{"article":{"title":"Title"}}')
+    expect(har.log.entries[0].response.status).toBe(201)
+    expect(har.log.entries[0].response.headers).toEqual([{ name: 'content-type', value: 'application/json' }])
+    expect(har.log.entries[1].response.status).toBe(0)
+    expect(har.log.entries[1].comment).toBe('HAR test')
+})
+
+test('Logged requests render as curl commands with secrets redacted', async () => {
+    const logger = new APILogger()
+    logger.logRequest('GET', 'https://api.example.com/api/tags', {})
+    logger.logRequest('POST', 'https://api.example.com/api/users/login', { 'Authorization': 'Token abc' },
+        { user: { email: "o'brien@test.com", password: 'plaintext-password' } })
+
+    expect(logger.getCurlCommands()[0]).toBe(`curl 'https://api.example.com/api/tags'`)
+    expect(logger.getLastCurlCommand()).toBe(
+        `curl -X POST 'https://api.example.com/api/users/login' \\\n` +
+        `  -H 'Authorization: [REDACTED]' \\\n` +
+        `  -H 'Content-Type: application/json' \\\n` +
+        `  --data-raw '{"user":{"email":"o'\\''brien@test.com","password":"[REDACTED]"}}'`
+    )
+})
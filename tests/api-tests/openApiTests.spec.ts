@@ -0,0 +1,44 @@
+/**
+ * OpenAPI contract checks
+ *
+ * Purpose:
+ * - Verify live responses match the operation documented in config.openApiSpec,
+ *   resolved from the method, URL and status of the last request
+ */
+import { test } from '../../utils/fixtures';
+import { expect } from '../../utils/custom-expect';
+import { getNewRandomArticle } from '../../utils/data-generator';
+import { SchemaResponse } from '../../utils/schema-types';
+
+test('Article list and tags match the OpenAPI spec', async ({ api }) => {
+    const articlesResponse = await api
+        .path('/articles')
+        .params({ limit: 10, offset: 0 })
+        .getRequest<SchemaResponse<'articles', 'GET_articles'>>(200)  /* typed body, checked at runtime against the spec */
+    await expect(articlesResponse).shouldMatchOpenApi()
+    expect(articlesResponse.articles.length).shouldBeLessThanOrEqual(10)
+
+    const tagsResponse = await api
+        .path('/tags')
+        .getRequest<SchemaResponse<'tags', 'GET_tags'>>(200)
+    await expect(tagsResponse).shouldMatchOpenApi()
+    expect(tagsResponse.tags.length).shouldBeLessThanOrEqual(10)
+})
+
+test('Article lifecycle matches the OpenAPI spec', async ({ api }) => {
+    const createArticleResponse = await api
+        .path('/articles')
+        .body(getNewRandomArticle())
+        .postRequest<SchemaResponse<'articles', 'POST_articles'>>(201)
+    await expect(createArticleResponse).shouldMatchOpenApi()
+    const slugId = createArticleResponse.article.slug
+
+    try {
+        const articleResponse = await api
+            .path(`/articles/${slugId}`)
+            .getRequest(200)
+        await expect(articleResponse).shouldMatchOpenApi()
+    } finally {
+        await api.path(`/articles/${slugId}`).deleteRequest(204)
+    }
+})
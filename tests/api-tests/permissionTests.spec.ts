@@ -0,0 +1,29 @@
+/**
+ * Cross-user permissions
+ *
+ * Purpose:
+ * - Verify named users from config.users act with their own credentials,
+ *   so authorization rules can be checked in one line per user
+ */
+import { test } from '../../utils/fixtures';
+import { expect } from '../../utils/custom-expect';
+import { getNewRandomArticle } from '../../utils/data-generator';
+
+test('Reader cannot delete or edit the author\'s article', async ({ api, apiAs }) => {
+    const { article } = await api.path('/articles').body(getNewRandomArticle()).postRequest(201)
+
+    try {
+        await api.path(`/articles/${article.slug}`).as('reader').deleteRequest(403)
+        await apiAs('reader').path(`/articles/${article.slug}`).body({ article: { title: 'Not mine' } }).putRequest(403)
+
+        const { user: reader } = await apiAs('reader').path('/user').getRequest(200)
+        expect(reader.username).not.toBe(article.author.username)
+    } finally {
+        await api.path(`/articles/${article.slug}`).deleteRequest(204)
+    }
+})
+
+test('Unknown users are reported with the configured names', async ({ api }) => {
+    const error = await api.path('/user').as('nobody').getRequest(200).catch(error => error)
+    expect(error.message).toContain("Cannot send the request as 'nobody': Unknown user 'nobody'")
+})
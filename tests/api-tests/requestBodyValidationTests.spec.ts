@@ -0,0 +1,51 @@
+/**
+ * Request body validation
+ *
+ * Purpose:
+ * - Verify valid payloads pass their request-schemas/ schema and are sent as usual
+ * - Verify a malformed payload fails with the schema errors before anything is sent
+ */
+import { test } from '../../utils/fixtures';
+import { expect } from '../../utils/custom-expect';
+import { APILogger } from '../../utils/logger';
+import { RequestHandler } from '../../utils/request-handler';
+import { getNewRandomArticle } from '../../utils/data-generator';
+
+test('Valid article payloads pass validation and are sent', async ({ api }) => {
+    const articleRequest = getNewRandomArticle()
+    const createArticleResponse = await api
+        .path('/articles')
+        .body(articleRequest)
+        .validateBody('articles', 'POST_articles')
+        .postRequest(201)
+    const slugId = createArticleResponse.article.slug
+
+    try {
+        /* PUT accepts a partial article */
+        const updateArticleResponse = await api
+            .path(`/articles/${slugId}`)
+            .body({ article: { description: 'Updated description' } })
+            .validateBody('articles', 'PUT_articles')
+            .putRequest(200)
+        expect(updateArticleResponse.article.description).shouldEqual('Updated description')
+    } finally {
+        await api.path(`/articles/${slugId}`).deleteRequest(204)
+    }
+})
+
+test('Malformed request body fails schema validation before it is sent', async ({ request, config }) => {
+    const logger = new APILogger()
+    const api = new RequestHandler(request, config.apiUrl, logger)
+
+    const error = await api
+        .path('/articles')
+        .body({ article: { titel: 'Typo', description: 'Test', body: 'Test' } })
+        .validateBody('articles', 'POST_articles')
+        .postRequest(201)
+        .catch(error => error)
+
+    expect(error.message).toContain(`POST request to ${config.apiUrl}/articles was not sent`)
+    expect(error.message).toContain(`/article must have required property 'title'`)
+    expect(error.message).toContain(`/article must NOT have additional properties 'titel'`)
+    expect(logger.getLogEntries().length).shouldEqual(0)
+})
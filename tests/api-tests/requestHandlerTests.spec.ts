@@ -0,0 +1,162 @@
+/**
+ * RequestHandler verb coverage
+ *
+ * Purpose:
+ * - Verify the less common HTTP verbs go through the same logging and status validation
+ *   as getRequest/postRequest/putRequest/deleteRequest
+ */
+import { test } from '../../utils/fixtures';
+import { expect } from '../../utils/custom-expect';
+import { APILogger } from '../../utils/logger';
+import { RequestHandler } from '../../utils/request-handler';
+import { TagsResponse } from '../../utils/conduit-types';
+import { startStubServer } from '../../helpers/stubServer';
+
+test('HEAD request checks that an endpoint exists', async ({ api }) => {
+    await api
+        .path('/tags')
+        .clearAuth()
+        .headRequest(200)
+})
+
+test('OPTIONS request answers a CORS preflight', async ({ api }) => {
+    await api
+        .path('/articles')
+        .headers({ 'Origin': 'https://conduit.bondaracademy.com', 'Access-Control-Request-Method': 'POST' })
+        .clearAuth()
+        .optionsRequest(204)
+})
+
+test('Unexpected status on a new verb includes recent API activity', async ({ request, config }) => {
+    const logger = new APILogger()
+    const api = new RequestHandler(request, config.apiUrl, logger)
+
+    const error = await api
+        .path('/tags')
+        .headRequest(404)
+        .catch(error => error)
+
+    expect(error.message).toContain('Expected status 404 but got 200')
+    expect(error.message).toContain('"method": "HEAD"')
+    expect(error.message).toContain(`Reproduce with:\ncurl --head '${config.apiUrl}/tags'`)
+})
+
+test('Full response exposes status, headers, raw text and the originating request', async ({ api }) => {
+    const response = await api
+        .path('/tags')
+        .clearAuth()
+        .fullResponse()
+        .getRequest<TagsResponse>(200)
+
+    expect(response.status).shouldEqual(200)
+    expect(response.headers['content-type']).toContain('application/json')
+    expect(response.body.tags.length).shouldBeLessThanOrEqual(10)
+    expect(JSON.parse(response.rawText)).shouldEqual(response.body)
+    expect(response.durationMs).toBeGreaterThanOrEqual(0)
+    expect(response.request.method).shouldEqual('GET')
+    expect(response.request.url).toContain('/tags')
+
+    /* Failures point at the calling test line */
+    const error = await api.path('/tags').fullResponse().getRequest(404).catch(error => error)
+    expect(error.message).toContain('Expected status 404 but got 200')
+    expect(error.stack).toContain('requestHandlerTests.spec.ts')
+})
+
+test('Status expectations accept lists, classes and predicates', async ({ api }) => {
+    await api.path('/tags').getRequest([200, 201])
+    await api.path('/tags').getRequest('2xx')
+    await api.path('/tags').getRequest(status => status < 300)
+
+    const error = await api
+        .path('/articles/this-slug-does-not-exist')
+        .getRequest('2xx')
+        .catch(error => error)
+
+    expect(error.message).toContain('Expected status 2xx but got 404')
+    expect(error.message).toContain('Recent API Activity')
+})
+
+test('Transient 503 responses are retried for idempotent verbs only', async ({ request }) => {
+    /* Local stub that fails twice before succeeding */
+    let calls = 0
+    const stub = await startStubServer((req, res) => {
+        calls++
+        res.writeHead(calls < 3 ? 503 : 200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ calls }))
+    })
+
+    const logger = new APILogger()
+    const api = new RequestHandler(request, stub.baseUrl, logger)
+
+    try {
+        const response = await api
+            .path('/flaky')
+            .retry({ attempts: 3, backoff: 10, on: [503] })
+            .getRequest(200)
+        expect(response.calls).toBe(3)
+        expect(logger.getRecentLogs()).toContain('===Retry Details===')
+
+        /* POST is not idempotent, so the same policy sends it only once */
+        calls = 0
+        await api
+            .path('/flaky')
+            .retry({ attempts: 3, backoff: 10, on: [503] })
+            .postRequest(503)
+        expect(calls).toBe(1)
+    } finally {
+        await stub.close()
+    }
+})
+
+test('Timed out request names the method and URL', async ({ request }) => {
+    /* Local stub that never answers */
+    const stub = await startStubServer(() => {})
+
+    /* Query credentials are sent, but stay out of the message */
+    const logger = new APILogger()
+    const api = new RequestHandler(request, stub.baseUrl, logger, { query: { api_key: 'SECRET123' } })
+
+    try {
+        const error = await api
+            .path('/hung')
+            .timeout(200)
+            .getRequest(200)
+            .catch(error => error)
+
+        expect(error.message).toContain(`GET request to ${stub.baseUrl}/hung timed out after 200ms`)
+        expect(error.message).toContain('Recent API Activity')
+        expect(error.message).not.toContain('SECRET123')
+    } finally {
+        await stub.close()
+    }
+})
+
+test('GET with a non-JSON success body fails with the raw text', async ({ request }) => {
+    /* Local stub answering with an HTML page; the status is taken from the path */
+    const stub = await startStubServer((req, res) => {
+        res.writeHead(Number(req.url!.slice(1)), { 'Content-Type': 'text/html' })
+        res.end('<html>Gateway page</html>')
+    })
+
+    const api = new RequestHandler(request, stub.baseUrl, new APILogger())
+
+    try {
+        const error = await api.path('/200').getRequest(200).catch(error => error)
+        expect(error.message).toContain(`GET request to ${stub.baseUrl}/200 returned a non-JSON body (status 200)`)
+        expect(error.message).toContain('<html>Gateway page</html>')
+
+        /* Expected error pages pass, and full responses keep the raw text next to an empty body */
+        await api.path('/404').getRequest(404)
+        const page = await api.path('/200').fullResponse().getRequest(200)
+        expect(page.body).toEqual({})
+        expect(page.rawText).toBe('<html>Gateway page</html>')
+
+        /* A transient HTML 503 is still retried */
+        const logger = new APILogger()
+        const retrying = new RequestHandler(request, stub.baseUrl, logger)
+        await retrying.path('/503').retry({ attempts: 2, backoff: 10, on: [503] }).getRequest(200).catch(error => error)
+        expect(logger.getRecentLogs()).toContain('===Retry Details===')
+    } finally {
+        await stub.close()
+    }
+})
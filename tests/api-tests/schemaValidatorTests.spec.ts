@@ -0,0 +1,169 @@
+/**
+ * Schema generation behaviour
+ *
+ * Purpose:
+ * - Verify generated schemas carry string formats, including inside nested objects
+ *   and arrays of objects such as articles[].author
+ * - Verify schema drift is reported as breaking or additive changes
+ * - Verify the committed schemas carry the inferred formats, so regenerating them reports no drift
+ * - Verify schemas learned from several samples merge types and optional properties
+ * - Verify stored schemas resolve $refs to shared schema files and can be validated repeatedly
+ * - Verify responses are validated against the OpenAPI operation resolved from method, URL and status
+ * - Verify the committed response-schemas/types.d.ts matches the schema files
+ */
+import { test, expect } from '@playwright/test';
+import { inferSchema, inferMergedSchema, schemaDrift, validateOpenApiResponse, validateSchema } from '../../utils/schema-validator';
+import { diffSchemas, formatSchemaDiff } from '../../utils/schema-diff';
+import { checkSchemaTypes, generateSchemaTypes } from '../../utils/schema-typegen';
+import { findOperation, loadOpenApiSpec } from '../../utils/openapi-spec';
+
+const articlesResponse = {
+    articles: [{
+        slug: 'Hello-World-1',
+        createdAt: '2024-05-01T10:20:30.123Z',
+        tagList: [],
+        author: {
+            username: 'author',
+            email: 'author@test.com',
+            bio: null,
+            image: 'https://conduit-api.bondaracademy.com/images/smiley-cyrus.jpeg'
+        }
+    }],
+    articlesCount: 1
+}
+
+test('Generated schema infers formats in nested arrays of objects', async () => {
+    const schema: any = inferSchema(articlesResponse)
+    const article = schema.properties.articles.items.properties
+
+    expect(article.createdAt.format).toBe('date-time')
+    expect(article.author.properties.image.format).toBe('uri')
+    expect(article.author.properties.email.format).toBe('email')
+    expect(article.slug.format).toBeUndefined()
+    expect(article.author.properties.username.format).toBeUndefined()
+})
+
+test('Formats are only inferred from values that satisfy them', async () => {
+    const schema: any = inferSchema({ image: '', updatedAt: 'yesterday', id: 'not-a-uuid' })
+
+    expect(schema.properties.image.format).toBeUndefined()
+    expect(schema.properties.updatedAt.format).toBeUndefined()
+    expect(schema.properties.id.format).toBeUndefined()
+})
+
+test('Schema diff classifies breaking and additive drift', async () => {
+    const stored: any = inferSchema(articlesResponse)
+    const changedResponse = structuredClone(articlesResponse) as any
+    delete changedResponse.articles[0].slug
+    changedResponse.articles[0].author.bio = 'Now a string'
+    changedResponse.articles[0].favoritesCount = 3
+
+    const changes = diffSchemas(stored, inferSchema(changedResponse))
+
+    expect(changes).toContainEqual({ path: 'articles[].slug', kind: 'property-removed', breaking: true, before: undefined, after: undefined })
+    expect(changes).toContainEqual({ path: 'articles[].author.bio', kind: 'type-changed', breaking: true, before: 'null', after: 'string' })
+    expect(changes).toContainEqual({ path: 'articles[].favoritesCount', kind: 'property-added', breaking: false, before: undefined, after: undefined })
+    expect(changes[0].breaking).toBe(true)
+    expect(formatSchemaDiff('GET_articles_schema.json', changes)).toContain('2 breaking, 1 additive change(s)')
+    expect(diffSchemas(stored, stored)).toEqual([])
+})
+
+test('Committed schemas report no drift for a typical response', async () => {
+    const createArticleResponse = {
+        article: {
+            slug: 'Hello-World-1',
+            title: 'Hello World',
+            description: 'Test description',
+            body: 'Test body',
+            tagList: [],
+            createdAt: '2024-05-01T10:20:30.123Z',
+            updatedAt: '2024-05-01T10:20:30.123Z',
+            favorited: false,
+            favoritesCount: 0,
+            author: { username: 'author', bio: null, image: 'https://conduit-api.bondaracademy.com/images/smiley-cyrus.jpeg', following: false }
+        }
+    }
+
+    /* Formats inferred from createdAt, updatedAt and author.image are already in the files */
+    expect(await schemaDrift('articles', 'POST_articles', createArticleResponse)).toEqual([])
+    expect(await schemaDrift('articles', 'PUT_articles', createArticleResponse)).toEqual([])
+    expect(await schemaDrift('tags', 'GET_tags', { tags: ['Test', 'Git'] })).toEqual([])
+})
+
+test('Merged schema accepts every observed variant of a response', async () => {
+    const withBio = structuredClone(articlesResponse) as any
+    withBio.articles[0].author.bio = 'Now a string'
+    withBio.articles[0].favoritesCount = 3
+    withBio.articles[0].author.image = ''
+
+    const schema: any = inferMergedSchema([articlesResponse, withBio])
+    const article = schema.properties.articles.items
+
+    expect([...article.properties.author.properties.bio.type].sort()).toEqual(['null', 'string'])
+    expect(article.properties.favoritesCount.type).toBe('integer')
+    expect(article.required).not.toContain('favoritesCount')
+    expect(article.properties.createdAt.format).toBe('date-time')
+    expect(article.properties.author.properties.image.format).toBeUndefined()
+})
+
+test('Stored schemas resolve shared $ref schemas', async () => {
+    const createArticleResponse = {
+        article: {
+            slug: 'Hello-World-1',
+            title: 'Hello World',
+            description: 'Test description',
+            body: 'Test body',
+            tagList: [],
+            createdAt: '2024-05-01T10:20:30.123Z',
+            updatedAt: '2024-05-01T10:20:30.123Z',
+            favorited: false,
+            favoritesCount: 0,
+            author: { username: 'author', bio: null, image: 'https://conduit-api.bondaracademy.com/images/smiley-cyrus.jpeg', following: false }
+        }
+    }
+
+    /* Validating twice reuses the cached validator */
+    await validateSchema('articles', 'POST_articles', createArticleResponse)
+    await validateSchema('articles', 'POST_articles', createArticleResponse)
+
+    /* The author shape comes from response-schemas/shared/author_schema.json */
+    const invalidAuthor = structuredClone(createArticleResponse) as any
+    invalidAuthor.article.author.following = 'no'
+    await expect(validateSchema('articles', 'POST_articles', invalidAuthor)).rejects.toThrow('/article/author/following')
+})
+
+test('OpenAPI validation resolves the operation from method, URL and status', async () => {
+    const specPath = './openapi/conduit.json'
+    const articleUrl = 'http://localhost:3333/api/articles/Hello-World-1'
+    const singleArticle = { article: articlesResponse.articles[0] } as any
+    Object.assign(singleArticle.article, { title: 'Hello', description: 'World', body: 'Body', updatedAt: '2024-05-01T10:20:30.123Z', favorited: false, favoritesCount: 0 })
+    singleArticle.article.author.following = false
+
+    await validateOpenApiResponse({ method: 'GET', url: articleUrl, statusCode: 200 }, singleArticle, specPath)
+    await validateOpenApiResponse({ method: 'DELETE', url: articleUrl, statusCode: 204 }, {}, specPath)
+
+    await expect(validateOpenApiResponse({ method: 'GET', url: articleUrl, statusCode: 200 }, { article: { slug: 1 } }, specPath))
+        .rejects.toThrow('OpenAPI validation GET /articles/{slug} 200 failed')
+    await expect(validateOpenApiResponse({ method: 'GET', url: articleUrl, statusCode: 418 }, {}, specPath))
+        .rejects.toThrow('Status 418 is not documented for GET /articles/{slug}')
+
+    /* The whole path after the API base path has to match, literal segments win over templates */
+    const spec = await loadOpenApiSpec(specPath)
+    expect(findOperation(spec, 'GET', 'http://localhost:3333/api/profiles/user')?.pathTemplate).toBe('/profiles/{username}')
+    expect(findOperation(spec, 'GET', 'http://localhost:3333/api/user')?.pathTemplate).toBe('/user')
+    expect(findOperation(spec, 'GET', 'http://localhost:3333/api/articles/feed')?.pathTemplate).toBe('/articles/feed')
+    expect(findOperation(spec, 'GET', 'http://localhost:3333/api/articles/feed/extra')).toBeUndefined()
+
+    /* Without a spec the endpoint's response-schemas file is used */
+    await validateOpenApiResponse({ method: 'GET', url: 'http://localhost:3333/api/tags', statusCode: 200 }, { tags: ['Test'] }, '')
+})
+
+test('Generated schema types are up to date and follow shared $refs', async () => {
+    const result = await checkSchemaTypes()
+    expect(result.upToDate, `${result.outputPath} is stale, run: npm run generate:types`).toBe(true)
+
+    const types = await generateSchemaTypes()
+    expect(types).toContain('export interface Author {')
+    expect(types).toContain('        author: Author')
+    expect(types).toContain("    'articles/GET_articles': GetArticles")
+})
@@ -1,25 +1,20 @@
 import { test } from '../../utils/fixtures';
 import { expect } from '../../utils/custom-expect';
-import { createToken } from '../../helpers/createToken';
 import { APILogger } from '../../utils/logger';
 import articleRequestPayload from '../../request-objects/articles/POST-article.json'
 import { faker } from '@faker-js/faker'
 import { getNewRandomArticle } from '../../utils/data-generator';
 
 /*
-* This is needed if you want to use a different user than the default user.
-* The default user is the user in the api-test.config.ts file.
+* To send a request as a different user than the default user, use a named user from
+* config.users in api-test.config.ts: api.path('/articles').as('reader').getRequest(200)
+* or apiAs('reader') for a RequestHandler acting as that user.
 */
-// let authToken: string
-
-// test.beforeAll(async ({ api }) => {
-//     authToken = await createToken('pwapiuser@test.com', 'Welcome')
-// })
 
 test('Get Articles', async ({ api }) => {
     const articlesResponse = await api
         .path('/articles')
-        //.headers({ 'Authorization': authToken }) //uncomment this to add the Authorization header other than the defaultAuthToken
+        //.as('reader') //uncomment this to send the request as the reader user instead of the default user
         .params({ limit: 10, offset: 0 })
         //.clearAuth() //uncomment this to clear the default Authorization header
         .getRequest(200)
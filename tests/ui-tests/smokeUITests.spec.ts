@@ -1,11 +1,40 @@
-import { test, expect } from '@playwright/test'
+import { test } from '../../utils/fixtures'
+import { expect } from '@playwright/test'
 import { config } from '../../api-test.config'
+import { getNewRandomArticle } from '../../utils/data-generator'
+
+/*
+* Pages open logged in with the API token (storageState fixture in utils/fixtures.ts),
+* so there is no sign-in through the form and data can be seeded through api.
+*/
 
 test('Get Articles', async ({ page }) => {
     await page.goto('/')
-    await page.getByText('Sign in').click()
-    await page.getByRole('textbox', { name: 'Email' }).fill(config.userEmail)
-    await page.getByRole('textbox', { name: 'Password' }).fill(config.userPassword)
-    await page.getByRole('button', { name: 'Sign in' }).click()
     await expect(page.getByText('Your feed')).toBeVisible()
-})
\ No newline at end of file
+})
+
+test('Article created through the API is shown in the UI', async ({ api, page }) => {
+    const newArticle = getNewRandomArticle()
+    const { article } = await api.path('/articles').body(newArticle).postRequest(201)
+
+    try {
+        await page.goto(`/article/${article.slug}`)
+        await expect(page.getByRole('heading', { name: newArticle.article.title })).toBeVisible()
+    } finally {
+        await api.path(`/articles/${article.slug}`).deleteRequest(204)
+    }
+})
+
+test.describe('Logged out', () => {
+    /* Start without the API session to cover the sign-in form itself */
+    test.use({ storageState: { cookies: [], origins: [] } })
+
+    test('Sign in through the form', async ({ page }) => {
+        await page.goto('/')
+        await page.getByText('Sign in').click()
+        await page.getByRole('textbox', { name: 'Email' }).fill(config.userEmail)
+        await page.getByRole('textbox', { name: 'Password' }).fill(config.userPassword)
+        await page.getByRole('button', { name: 'Sign in' }).click()
+        await expect(page.getByText('Your feed')).toBeVisible()
+    })
+})
@@ -0,0 +1,20 @@
+/**
+ * Shared API and UI session
+ *
+ * Purpose:
+ * - Verify the API token is turned into a browser storage state for the web app
+ * - Verify schemes without a token leave the browser logged out
+ */
+import { test, expect } from '@playwright/test';
+import { buildUiStorageState } from '../../utils/ui-session';
+
+test('API token becomes the web app\'s localStorage session', async () => {
+    const state = buildUiStorageState({ headers: { Authorization: 'Token abc.def.ghi' } }, 'https://conduit.example.com/', 'jwtToken')
+    expect(state).toEqual({
+        cookies: [],
+        origins: [{ origin: 'https://conduit.example.com', localStorage: [{ name: 'jwtToken', value: 'abc.def.ghi' }] }]
+    })
+
+    /* Schemes without a token leave the browser logged out */
+    expect(buildUiStorageState({ query: { api_key: 'abc123' } })).toBeUndefined()
+})
@@ -0,0 +1,247 @@
+/**
+ * API Coverage Module
+ *
+ * This module compares the API calls made during a test run with the documented
+ * endpoints (OpenAPI spec or route manifest) and builds an endpoint x status code
+ * coverage matrix, rendered as JSON and HTML by the coverage reporter.
+ *
+ * Features:
+ * - Loads endpoints from an OpenAPI 3 JSON file or a route manifest
+ * - Normalises concrete URLs to path templates (/articles/my-slug -> /articles/{slug})
+ * - Groups undocumented calls by their path after the API base path, id-like segments collapsed (/widgets/42 -> /widgets/{id})
+ * - Counts hits per documented status, flags undocumented endpoints and statuses
+ *
+ * Route Manifest Format (JSON):
+ * [
+ *   { "method": "GET", "path": "/articles/{slug}", "statuses": [200, 404] },
+ *   { "method": "DELETE", "path": "/articles/{slug}" }
+ * ]
+ *
+ * Usage:
+ * const endpoints = await loadEndpoints('./openapi/conduit.json')
+ * const coverage = buildCoverage(endpoints, logger.getExchanges(), './openapi/conduit.json')
+ * await writeCoverageReport(coverage, 'api-coverage-report')
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { RecordedExchange } from './logger'
+import { apiPath, findEndpoint, findStatusKey, listOperations } from './openapi-spec'
+
+/* Name of the per-test attachment carrying the API calls to the coverage reporter */
+export const API_CALLS_ATTACHMENT = 'api-calls.json'
+
+/* A documented endpoint with its documented status keys ('200', '4XX', 'default') */
+export type ApiEndpoint = {
+    method: string
+    pathTemplate: string
+    statuses: string[]
+}
+
+/* Hits recorded for one status of an endpoint */
+export type StatusCoverage = {
+    /* Whether the spec / manifest documents this status */
+    documented: boolean
+    hits: number
+}
+
+/* Coverage of one endpoint, keyed by status key */
+export type EndpointCoverage = {
+    method: string
+    pathTemplate: string
+    /* false for calls that matched no documented endpoint */
+    documented: boolean
+    statuses: Record<string, StatusCoverage>
+}
+
+/* The complete coverage matrix of a run */
+export type ApiCoverage = {
+    source: string
+    generatedAt: string
+    endpoints: EndpointCoverage[]
+    summary: {
+        endpoints: { covered: number, total: number }
+        statuses: { covered: number, total: number }
+        undocumentedCalls: number
+    }
+}
+
+/**
+ * Loads the documented endpoints from an OpenAPI 3 JSON file or a route manifest.
+ *
+ * @param sourcePath - Path to the OpenAPI spec or route manifest
+ * @returns Promise<ApiEndpoint[]> - Documented endpoints
+ * @throws Error - If the file cannot be read or has neither format
+ */
+export async function loadEndpoints(sourcePath: string): Promise<ApiEndpoint[]> {
+    let document: any
+    try {
+        document = JSON.parse(await fs.readFile(sourcePath, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Failed to read the API coverage source: ${error.message}`)
+    }
+
+    if (Array.isArray(document)) {
+        return document.map(route => ({
+            method: String(route.method).toUpperCase(),
+            pathTemplate: route.path,
+            statuses: (route.statuses ?? []).map(String)
+        }))
+    }
+    if (document.openapi) {
+        return listOperations(document).map(operation => ({
+            method: operation.method,
+            pathTemplate: operation.pathTemplate,
+            statuses: Object.keys(operation.operation.responses ?? {})
+        }))
+    }
+    throw new Error(`${sourcePath} is neither an OpenAPI document nor a route manifest`)
+}
+
+/**
+ * Builds the endpoint x status coverage matrix.
+ * Calls are attributed to the documented status key covering them (exact, range, default);
+ * calls to unknown endpoints are grouped by method and normalised path (see undocumentedPathTemplate).
+ * The summary only counts documented endpoints and explicit statuses ('default' is not a target).
+ *
+ * @param endpoints - Documented endpoints from loadEndpoints()
+ * @param calls - API calls made during the run
+ * @param source - Name of the spec / manifest, stored in the report
+ * @returns ApiCoverage - Coverage matrix and summary
+ */
+export function buildCoverage(endpoints: ApiEndpoint[], calls: RecordedExchange[], source: string): ApiCoverage {
+    const rows = new Map<string, EndpointCoverage>()
+    for (const endpoint of endpoints) {
+        const statuses: Record<string, StatusCoverage> = {}
+        for (const statusKey of endpoint.statuses) statuses[statusKey] = { documented: true, hits: 0 }
+        rows.set(`${endpoint.method} ${endpoint.pathTemplate}`, { method: endpoint.method, pathTemplate: endpoint.pathTemplate, documented: true, statuses })
+    }
+
+    let undocumentedCalls = 0
+    for (const call of calls) {
+        const endpoint = findEndpoint(endpoints, call.method, call.url)
+        const method = call.method.toUpperCase()
+        const pathTemplate = endpoint?.pathTemplate ?? undocumentedPathTemplate(call.url)
+        const rowKey = `${method} ${pathTemplate}`
+        if (!rows.has(rowKey)) rows.set(rowKey, { method, pathTemplate, documented: false, statuses: {} })
+
+        const row = rows.get(rowKey)
+        const statusKey = (endpoint && findStatusKey(endpoint.statuses, call.statusCode)) ?? String(call.statusCode)
+        row.statuses[statusKey] ??= { documented: false, hits: 0 }
+        row.statuses[statusKey].hits++
+        if (!endpoint || !row.statuses[statusKey].documented) undocumentedCalls++
+    }
+
+    const documentedRows = [...rows.values()].filter(row => row.documented)
+    const targetStatuses = documentedRows.flatMap(row =>
+        Object.entries(row.statuses).filter(([statusKey, status]) => status.documented && statusKey !== 'default').map(([, status]) => status))
+
+    return {
+        source,
+        generatedAt: new Date().toISOString(),
+        endpoints: [...rows.values()].sort((first, second) =>
+            first.pathTemplate.localeCompare(second.pathTemplate) || first.method.localeCompare(second.method)),
+        summary: {
+            endpoints: {
+                covered: documentedRows.filter(row => Object.values(row.statuses).some(status => status.hits > 0)).length,
+                total: documentedRows.length
+            },
+            statuses: {
+                covered: targetStatuses.filter(status => status.hits > 0).length,
+                total: targetStatuses.length
+            },
+            undocumentedCalls
+        }
+    }
+}
+
+/**
+ * Path template for a call no endpoint documents: the path after the API base path,
+ * with segments containing a digit (ids, UUIDs, Conduit slugs) replaced by '{id}',
+ * so calls to the same undocumented endpoint share one row.
+ *
+ * @param url - Full request URL
+ * @returns string - e.g. '/widgets/{id}' for 'https://host/api/widgets/42'
+ */
+function undocumentedPathTemplate(url: string) {
+    return apiPath(url).split('/').map(segment => /\d/.test(segment) ? '{id}' : segment).join('/')
+}
+
+/**
+ * One-line summary for the console.
+ *
+ * @param coverage - Result of buildCoverage()
+ * @returns string - e.g. 'API coverage: 9/20 endpoints, 11/48 documented statuses, 2 undocumented call(s)'
+ */
+export function formatCoverageSummary(coverage: ApiCoverage) {
+    const { endpoints, statuses, undocumentedCalls } = coverage.summary
+    return `API coverage: ${endpoints.covered}/${endpoints.total} endpoints, ` +
+        `${statuses.covered}/${statuses.total} documented statuses, ${undocumentedCalls} undocumented call(s)`
+}
+
+/**
+ * Renders the coverage matrix as a standalone HTML page.
+ * Cells: hit count (green), documented but never hit (red), hit but undocumented (orange).
+ *
+ * @param coverage - Result of buildCoverage()
+ * @returns string - HTML document
+ */
+export function renderCoverageHtml(coverage: ApiCoverage) {
+    const statusKeys = [...new Set(coverage.endpoints.flatMap(row => Object.keys(row.statuses)))].sort()
+
+    const header = ['Method', 'Endpoint', ...statusKeys].map(title => `<th>${escapeHtml(title)}</th>`).join('')
+    const rows = coverage.endpoints.map(row => {
+        const cells = statusKeys.map(statusKey => {
+            const status = row.statuses[statusKey]
+            if (!status) return '<td class="none"></td>'
+            const className = !status.documented ? 'undocumented' : status.hits > 0 ? 'covered' : 'missing'
+            return `<td class="${className}">${status.hits}</td>`
+        })
+        const endpointClass = row.documented ? '' : ' class="undocumented"'
+        return `<tr><td>${row.method}</td><td${endpointClass}>${escapeHtml(row.pathTemplate)}</td>${cells.join('')}</tr>`
+    })
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>API Coverage</title>
+<style>
+    body { font-family: sans-serif; margin: 24px; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+    td.covered { background: #c8e6c9; text-align: center; }
+    td.missing { background: #ffcdd2; text-align: center; }
+    td.undocumented { background: #ffe0b2; text-align: center; }
+</style>
+</head>
+<body>
+<h1>API Coverage</h1>
+<p>${escapeHtml(formatCoverageSummary(coverage))}</p>
+<p>Source: ${escapeHtml(coverage.source)} &middot; Generated: ${coverage.generatedAt}</p>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+/**
+ * Writes api-coverage.json and index.html into the output folder.
+ *
+ * @param coverage - Result of buildCoverage()
+ * @param outputFolder - Destination directory, created if needed
+ */
+export async function writeCoverageReport(coverage: ApiCoverage, outputFolder: string) {
+    await fs.mkdir(outputFolder, { recursive: true })
+    await fs.writeFile(path.join(outputFolder, 'api-coverage.json'), JSON.stringify(coverage, null, 4))
+    await fs.writeFile(path.join(outputFolder, 'index.html'), renderCoverageHtml(coverage))
+}
+
+function escapeHtml(text: string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
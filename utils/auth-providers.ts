@@ -0,0 +1,409 @@
+/**
+ * Authentication Providers Module
+ *
+ * This module turns an authentication scheme into the credentials RequestHandler
+ * applies to every request (headers and/or query parameters). The scheme is
+ * selected per environment through config.auth, so the same tests can run against
+ * services that do not use Conduit's 'Token <jwt>' header.
+ *
+ * Built-in schemes:
+ * - conduit: POST /users/login with email/password, 'Authorization: Token <jwt>' (default)
+ * - bearer:  static token, 'Authorization: Bearer <token>'
+ * - apiKey:  static key sent as a header or a query parameter
+ * - basic:   'Authorization: Basic base64(username:password)'
+ * - oauth2:  client-credentials grant against a token endpoint, 'Authorization: Bearer <access_token>'
+ * - none:    no credentials
+ *
+ * Usage:
+ * const provider = createAuthProvider(config.auth)
+ * const credentials = await provider.authenticate()
+ * const api = new RequestHandler(request, config.apiUrl, logger, credentials)
+ *
+ * Renewable credentials (what the authToken fixture provides):
+ * const session = await AuthSession.start(createAuthProvider(config.auth))
+ * const api = new RequestHandler(request, config.apiUrl, logger, session)  // re-authenticates once on 401
+ *
+ * Named users from config.users (what the userSessions fixture provides):
+ * const reader = await new UserSessions(config.users).get('reader')
+ *
+ * With config.tokenCache, providers created for a user name reuse tokens from
+ * utils/token-cache.ts across workers and runs: createAuthProvider(config.auth, 'default')
+ *
+ * Custom schemes implement AuthProvider and can be passed wherever a provider is expected.
+ */
+
+import { request } from "@playwright/test";
+import { config } from "../api-test.config";
+import { createToken } from "../helpers/createToken";
+import { RedactionOptions } from "./logger";
+import { CachedAuthProvider, tokenCacheKey } from "./token-cache";
+
+/**
+ * Credentials applied to every authenticated request.
+ * Explicit .headers() / .params() values of a request take precedence.
+ */
+export type AuthCredentials = {
+    headers?: Record<string, string>
+    query?: Record<string, string>
+
+    /* Epoch milliseconds after which the credentials are rejected, when the scheme reports it (JWT expiry is decoded instead) */
+    expiresAt?: number
+}
+
+/**
+ * Contract implemented by every authentication scheme.
+ */
+export interface AuthProvider {
+    /* Scheme name, used in error messages */
+    readonly scheme: string
+
+    /**
+     * Obtains the credentials, calling a login or token endpoint when the scheme needs one.
+     * @throws Error - If the credentials cannot be obtained
+     */
+    authenticate(): Promise<AuthCredentials>
+}
+
+/**
+ * Scheme selection and settings, as written in config.auth.
+ */
+export type AuthConfig =
+    /* Conduit login; email and password default to config.userEmail / config.userPassword */
+    | { type: 'conduit', email?: string, password?: string }
+    | { type: 'bearer', token: string }
+    | { type: 'apiKey', name: string, value: string, in: 'header' | 'query' }
+    | { type: 'basic', username: string, password: string }
+    | {
+        type: 'oauth2'
+        tokenUrl: string
+        clientId: string
+        clientSecret: string
+        scope?: string
+        audience?: string
+        /* How the client authenticates to the token endpoint (default: 'basic', as recommended by RFC 6749) */
+        clientAuth?: 'basic' | 'body'
+    }
+    | { type: 'none' }
+
+/**
+ * Creates the provider for a configured scheme.
+ *
+ * @param authConfig - Scheme settings (default: config.auth of the current environment)
+ * @param user - User the credentials belong to ('default' or a config.users name); when given
+ *               and config.tokenCache is on, the provider reads and writes the token cache
+ * @returns AuthProvider - Provider ready to authenticate
+ * @throws Error - If the scheme is unknown
+ */
+export function createAuthProvider(authConfig: AuthConfig = config.auth, user?: string): AuthProvider {
+    const resolvedConfig = resolveAuthConfig(authConfig)
+    const provider = createSchemeProvider(resolvedConfig)
+    if (!user || !config.tokenCache) return provider
+
+    /* Cached tokens belong to the credentials actually used and the API that issued them */
+    return new CachedAuthProvider(provider, tokenCacheKey(user), { ...resolvedConfig, apiUrl: config.apiUrl })
+}
+
+/**
+ * Logs in the default user and every named user once and stores their tokens,
+ * so workers start from the token cache instead of logging in themselves.
+ * Called by global setup when config.tokenCache is on. A user that cannot log in
+ * is reported and skipped; tests using it fail with the login error as usual.
+ */
+export async function warmTokenCache() {
+    const users: [string, AuthConfig][] = [['default', config.auth], ...Object.entries(config.users)]
+    const results = await Promise.allSettled(users.map(([user, authConfig]) => createAuthProvider(authConfig, user).authenticate()))
+    results.forEach((result, index) => {
+        if (result.status === 'rejected') console.warn(`Token cache: could not log in '${users[index][0]}': ${result.reason?.message}`)
+    })
+}
+
+/**
+ * Applies the defaults of a scheme's settings, e.g. the Conduit login falls back
+ * to config.userEmail / config.userPassword.
+ *
+ * @param authConfig - Scheme settings as written in the config
+ * @returns AuthConfig - Settings with every default filled in
+ */
+function resolveAuthConfig(authConfig: AuthConfig): AuthConfig {
+    if (authConfig.type !== 'conduit') return authConfig
+    return { ...authConfig, email: authConfig.email ?? config.userEmail, password: authConfig.password ?? config.userPassword }
+}
+
+function createSchemeProvider(authConfig: AuthConfig): AuthProvider {
+    switch (authConfig.type) {
+        case 'conduit': return new ConduitTokenAuth(authConfig.email!, authConfig.password!)
+        case 'bearer': return new BearerAuth(authConfig.token)
+        case 'apiKey': return new ApiKeyAuth(authConfig.name, authConfig.value, authConfig.in)
+        case 'basic': return new BasicAuth(authConfig.username, authConfig.password)
+        case 'oauth2': return new OAuth2ClientCredentialsAuth(authConfig)
+        case 'none': return new NoAuth()
+        default: {
+            /* Fails to compile when a scheme is added to AuthConfig without a case above */
+            const unknown: never = authConfig
+            throw new Error(`Unknown auth type '${(unknown as { type: string }).type}' in config.auth`)
+        }
+    }
+}
+
+/**
+ * Redaction rules covering the names the credentials are sent under,
+ * so custom API key headers and query parameters never reach the logs.
+ *
+ * @param credentials - Credentials returned by a provider
+ * @returns Header and field names to add to an APILogger's redaction rules
+ */
+export function authRedaction(credentials: AuthCredentials): Pick<RedactionOptions, 'headers' | 'fields'> {
+    return {
+        headers: Object.keys(credentials.headers ?? {}),
+        fields: Object.keys(credentials.query ?? {})
+    }
+}
+
+/**
+ * AuthSession Class
+ *
+ * Holds the current credentials of a provider and renews them on demand.
+ * One session is shared by every RequestHandler of a worker (authToken fixture),
+ * so a refresh triggered by one test updates the credentials for all of them.
+ */
+export class AuthSession {
+    private provider: AuthProvider
+    private credentials: AuthCredentials
+
+    /* Refresh in progress, shared by concurrent callers so the provider is called once */
+    private pendingRefresh: Promise<AuthCredentials> | undefined
+
+    /**
+     * @param provider - Provider used to renew the credentials
+     * @param credentials - Credentials already obtained from the provider
+     */
+    constructor(provider: AuthProvider, credentials: AuthCredentials) {
+        this.provider = provider
+        this.credentials = credentials
+    }
+
+    /**
+     * Authenticates with a provider and opens a session with the result.
+     *
+     * @param provider - Provider to authenticate with
+     * @returns Promise<AuthSession> - Session holding the first credentials
+     */
+    static async start(provider: AuthProvider) {
+        return new AuthSession(provider, await provider.authenticate())
+    }
+
+    /* Scheme of the underlying provider, e.g. 'conduit' */
+    get scheme() {
+        return this.provider.scheme
+    }
+
+    /* Credentials to send with the next request */
+    get current() {
+        return this.credentials
+    }
+
+    /**
+     * Renews the credentials after a request sent with `stale` was rejected.
+     * When another request already renewed them, the newer credentials are returned
+     * without calling the provider again.
+     *
+     * @param stale - Credentials the rejected request was sent with
+     * @returns Promise<AuthCredentials> - Credentials to replay the request with
+     */
+    async refresh(stale: AuthCredentials): Promise<AuthCredentials> {
+        if (stale !== this.credentials) return this.credentials
+        this.pendingRefresh ??= this.provider.authenticate()
+            .then(credentials => this.credentials = credentials)
+            .finally(() => this.pendingRefresh = undefined)
+        return this.pendingRefresh
+    }
+}
+
+/**
+ * UserSessions Class
+ *
+ * Lazily authenticated sessions for the named users of config.users (author, reader, ...).
+ * Each user logs in on first use and the session is reused afterwards, so a worker
+ * authenticates every role at most once (plus refreshes on 401).
+ */
+export class UserSessions {
+    private users: Record<string, AuthConfig>
+    private sessions = new Map<string, Promise<AuthSession>>()
+
+    /**
+     * @param users - Auth scheme per user name (default: config.users)
+     */
+    constructor(users: Record<string, AuthConfig> = config.users) {
+        this.users = users
+    }
+
+    /**
+     * Returns the session of a named user, authenticating on first use.
+     *
+     * @param name - User name as defined in config.users
+     * @returns Promise<AuthSession> - The user's shared session
+     * @throws Error - If the user is not defined or cannot authenticate
+     */
+    async get(name: string): Promise<AuthSession> {
+        const authConfig = this.users[name]
+        if (!authConfig) {
+            throw new Error(`Unknown user '${name}'. Define it in config.users (known users: ${Object.keys(this.users).join(', ') || 'none'})`)
+        }
+        if (!this.sessions.has(name)) {
+            const session = AuthSession.start(createAuthProvider(authConfig, name))
+            /* Forget failed logins so the next call tries again */
+            session.catch(() => this.sessions.delete(name))
+            this.sessions.set(name, session)
+        }
+        return this.sessions.get(name)!
+    }
+}
+
+/**
+ * Conduit login: exchanges email and password for a 'Token <jwt>' header.
+ */
+export class ConduitTokenAuth implements AuthProvider {
+    readonly scheme = 'conduit'
+    private email: string
+    private password: string
+
+    constructor(email: string, password: string) {
+        this.email = email
+        this.password = password
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        return { headers: { Authorization: await createToken(this.email, this.password) } }
+    }
+}
+
+/**
+ * Static bearer token, e.g. a JWT issued outside the test run.
+ */
+export class BearerAuth implements AuthProvider {
+    readonly scheme = 'bearer'
+    private token: string
+
+    constructor(token: string) {
+        this.token = token
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        if (!this.token) throw new Error('Bearer auth requires a token')
+        return { headers: { Authorization: `Bearer ${this.token}` } }
+    }
+}
+
+/**
+ * Static API key sent as a header (e.g. X-API-Key) or a query parameter (e.g. ?api_key=).
+ */
+export class ApiKeyAuth implements AuthProvider {
+    readonly scheme = 'apiKey'
+    private name: string
+    private value: string
+    private location: 'header' | 'query'
+
+    constructor(name: string, value: string, location: 'header' | 'query' = 'header') {
+        this.name = name
+        this.value = value
+        this.location = location
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        if (!this.value) throw new Error(`API key auth requires a value for '${this.name}'`)
+        return this.location === 'query'
+            ? { query: { [this.name]: this.value } }
+            : { headers: { [this.name]: this.value } }
+    }
+}
+
+/**
+ * HTTP basic authentication.
+ */
+export class BasicAuth implements AuthProvider {
+    readonly scheme = 'basic'
+    private username: string
+    private password: string
+
+    constructor(username: string, password: string) {
+        this.username = username
+        this.password = password
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        const encoded = Buffer.from(`${this.username}:${this.password}`).toString('base64')
+        return { headers: { Authorization: `Basic ${encoded}` } }
+    }
+}
+
+/**
+ * OAuth2 client-credentials grant (RFC 6749, section 4.4).
+ * The access token is requested once per authenticate() call.
+ */
+export class OAuth2ClientCredentialsAuth implements AuthProvider {
+    readonly scheme = 'oauth2'
+    private settings: Extract<AuthConfig, { type: 'oauth2' }>
+
+    constructor(settings: Extract<AuthConfig, { type: 'oauth2' }>) {
+        this.settings = settings
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        const { tokenUrl, clientId, clientSecret, scope, audience, clientAuth = 'basic' } = this.settings
+
+        /* Form fields of the token request; optional ones are only sent when configured */
+        const form: Record<string, string> = { grant_type: 'client_credentials' }
+        if (scope) form.scope = scope
+        if (audience) form.audience = audience
+        const headers: Record<string, string> = {}
+        if (clientAuth === 'basic') {
+            headers['Authorization'] = `Basic ${Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64')}`
+        } else {
+            form.client_id = clientId
+            form.client_secret = clientSecret
+        }
+
+        /* Separate request context, like createToken, so the token call never shares test state */
+        const context = await request.newContext()
+        try {
+            const response = await context.post(tokenUrl, { form, headers, timeout: config.requestTimeout })
+            const body = await response.json().catch(() => ({}))
+            if (!response.ok() || typeof body.access_token !== 'string') {
+                throw new Error(`OAuth2 token request to ${tokenUrl} failed with status ${response.status()}: ${body.error_description ?? body.error ?? 'no access_token in the response'}`)
+            }
+            const tokenType = !body.token_type || body.token_type.toLowerCase() === 'bearer' ? 'Bearer' : body.token_type
+            const expiresAt = typeof body.expires_in === 'number' ? Date.now() + body.expires_in * 1000 : undefined
+            return { headers: { Authorization: `${tokenType} ${body.access_token}` }, expiresAt }
+        } finally {
+            await context.dispose()
+        }
+    }
+}
+
+/**
+ * Fixed credentials, e.g. a token string passed straight to RequestHandler.
+ * Refreshing returns the same credentials, so requests are never replayed.
+ */
+export class StaticAuth implements AuthProvider {
+    readonly scheme = 'static'
+    private credentials: AuthCredentials
+
+    constructor(credentials: AuthCredentials) {
+        this.credentials = credentials
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        return this.credentials
+    }
+}
+
+/**
+ * No credentials, for public APIs.
+ */
+export class NoAuth implements AuthProvider {
+    readonly scheme = 'none'
+
+    async authenticate(): Promise<AuthCredentials> {
+        return {}
+    }
+}
@@ -0,0 +1,242 @@
+/**
+ * Conduit Client Module
+ *
+ * Typed endpoint clients for the Conduit API, built on RequestHandler.
+ * Tests call named operations instead of spelling out raw paths and reading
+ * `any` responses, so changes to the API surface fail at compile time.
+ * Response types are passed to RequestHandler's generic verb methods.
+ *
+ * Every call still goes through RequestHandler, so logging, status validation,
+ * retries, timeouts and report attachments work exactly as with the `api` fixture.
+ * Each operation expects the documented success status; use `api` directly for
+ * negative scenarios.
+ *
+ * Usage:
+ * test('Create Article', async ({ conduit }) => {
+ *     const { article } = await conduit.articles.create({ title: 'Hi', description: 'Test', body: 'Body' })
+ *     await conduit.articles.delete(article.slug)
+ * })
+ */
+
+import { RequestHandler } from './request-handler';
+import {
+    FeedParams,
+    ListArticlesParams,
+    LoginUser,
+    MultipleArticlesResponse,
+    MultipleCommentsResponse,
+    NewArticle,
+    NewComment,
+    NewUser,
+    ProfileResponse,
+    SingleArticleResponse,
+    SingleCommentResponse,
+    TagsResponse,
+    UpdateArticle,
+    UpdateUser,
+    UserResponse
+} from './conduit-types';
+
+/**
+ * ConduitClient Class
+ *
+ * Entry point grouping the endpoint clients by resource.
+ * Provided to tests by the `conduit` fixture, sharing the test's RequestHandler.
+ */
+export class ConduitClient {
+    readonly articles: ArticlesClient
+    readonly users: UsersClient
+    readonly profiles: ProfilesClient
+    readonly comments: CommentsClient
+    readonly favorites: FavoritesClient
+    readonly tags: TagsClient
+
+    /**
+     * @param api - RequestHandler used for every call (carries auth, logger and defaults)
+     */
+    constructor(api: RequestHandler) {
+        this.articles = new ArticlesClient(api)
+        this.users = new UsersClient(api)
+        this.profiles = new ProfilesClient(api)
+        this.comments = new CommentsClient(api)
+        this.favorites = new FavoritesClient(api)
+        this.tags = new TagsClient(api)
+    }
+}
+
+/**
+ * Articles: /articles, /articles/feed, /articles/{slug}
+ */
+export class ArticlesClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    /**
+     * Lists articles globally, newest first.
+     * Example: await conduit.articles.list({ tag: 'Test', limit: 10 })
+     */
+    async list(params: ListArticlesParams = {}): Promise<MultipleArticlesResponse> {
+        return this.api.path('/articles').params(params).getRequest<MultipleArticlesResponse>(200)
+    }
+
+    /**
+     * Lists articles by followed authors.
+     */
+    async feed(params: FeedParams = {}): Promise<MultipleArticlesResponse> {
+        return this.api.path('/articles/feed').params(params).getRequest<MultipleArticlesResponse>(200)
+    }
+
+    /**
+     * Gets a single article by slug.
+     */
+    async get(slug: string): Promise<SingleArticleResponse> {
+        return this.api.path(`/articles/${encodeURIComponent(slug)}`).getRequest<SingleArticleResponse>(200)
+    }
+
+    /**
+     * Creates an article as the authenticated user.
+     */
+    async create(article: NewArticle): Promise<SingleArticleResponse> {
+        return this.api.path('/articles').body({ article }).postRequest<SingleArticleResponse>(201)
+    }
+
+    /**
+     * Updates an article; only the given fields change.
+     */
+    async update(slug: string, article: UpdateArticle): Promise<SingleArticleResponse> {
+        return this.api.path(`/articles/${encodeURIComponent(slug)}`).body({ article }).putRequest<SingleArticleResponse>(200)
+    }
+
+    /**
+     * Deletes an article.
+     */
+    async delete(slug: string): Promise<void> {
+        await this.api.path(`/articles/${encodeURIComponent(slug)}`).deleteRequest(204)
+    }
+}
+
+/**
+ * Users and authentication: /users/login, /users, /user
+ */
+export class UsersClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    /**
+     * Logs in without the default token; the response carries a fresh token.
+     */
+    async login(user: LoginUser): Promise<UserResponse> {
+        return this.api.path('/users/login').clearAuth().body({ user }).postRequest<UserResponse>(200)
+    }
+
+    /**
+     * Registers a new user.
+     */
+    async register(user: NewUser): Promise<UserResponse> {
+        return this.api.path('/users').clearAuth().body({ user }).postRequest<UserResponse>(201)
+    }
+
+    /**
+     * Gets the authenticated user.
+     */
+    async current(): Promise<UserResponse> {
+        return this.api.path('/user').getRequest<UserResponse>(200)
+    }
+
+    /**
+     * Updates the authenticated user; only the given fields change.
+     */
+    async update(user: UpdateUser): Promise<UserResponse> {
+        return this.api.path('/user').body({ user }).putRequest<UserResponse>(200)
+    }
+}
+
+/**
+ * Profiles: /profiles/{username}, /profiles/{username}/follow
+ */
+export class ProfilesClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    async get(username: string): Promise<ProfileResponse> {
+        return this.api.path(`/profiles/${encodeURIComponent(username)}`).getRequest<ProfileResponse>(200)
+    }
+
+    async follow(username: string): Promise<ProfileResponse> {
+        return this.api.path(`/profiles/${encodeURIComponent(username)}/follow`).postRequest<ProfileResponse>(200)
+    }
+
+    async unfollow(username: string): Promise<ProfileResponse> {
+        /* deleteRequest() returns nothing, this DELETE answers with the updated profile */
+        const response = await this.api.path(`/profiles/${encodeURIComponent(username)}/follow`).fullResponse().deleteRequest<ProfileResponse>(200)
+        return response.body
+    }
+}
+
+/**
+ * Comments: /articles/{slug}/comments, /articles/{slug}/comments/{id}
+ */
+export class CommentsClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    async list(slug: string): Promise<MultipleCommentsResponse> {
+        return this.api.path(`/articles/${encodeURIComponent(slug)}/comments`).getRequest<MultipleCommentsResponse>(200)
+    }
+
+    async create(slug: string, comment: NewComment): Promise<SingleCommentResponse> {
+        return this.api.path(`/articles/${encodeURIComponent(slug)}/comments`).body({ comment }).postRequest<SingleCommentResponse>(200)
+    }
+
+    async delete(slug: string, id: number): Promise<void> {
+        await this.api.path(`/articles/${encodeURIComponent(slug)}/comments/${id}`).deleteRequest(204)
+    }
+}
+
+/**
+ * Favorites: /articles/{slug}/favorite
+ */
+export class FavoritesClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    async add(slug: string): Promise<SingleArticleResponse> {
+        return this.api.path(`/articles/${encodeURIComponent(slug)}/favorite`).postRequest<SingleArticleResponse>(200)
+    }
+
+    async remove(slug: string): Promise<SingleArticleResponse> {
+        /* deleteRequest() returns nothing, this DELETE answers with the updated article */
+        const response = await this.api.path(`/articles/${encodeURIComponent(slug)}/favorite`).fullResponse().deleteRequest<SingleArticleResponse>(200)
+        return response.body
+    }
+}
+
+/**
+ * Tags: /tags
+ */
+export class TagsClient {
+    private api: RequestHandler
+
+    constructor(api: RequestHandler) {
+        this.api = api
+    }
+
+    async list(): Promise<TagsResponse> {
+        return this.api.path('/tags').getRequest<TagsResponse>(200)
+    }
+}
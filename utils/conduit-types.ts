@@ -0,0 +1,147 @@
+/**
+ * Conduit API Types
+ *
+ * TypeScript interfaces for the Conduit request and response payloads used by
+ * the typed ConduitClient (utils/conduit-client.ts). They mirror the shapes in
+ * openapi/conduit.json and response-schemas/, so a change in the API surface shows
+ * up as a compile error in every test that relies on it.
+ *
+ * Naming:
+ * - Entities: User, Profile, Article, Comment
+ * - Request payloads: NewArticle, UpdateArticle, ... (wrapped by the client, e.g. { article })
+ * - Response envelopes: SingleArticleResponse, MultipleArticlesResponse, ...
+ */
+
+/* ---------- Users ---------- */
+
+export interface User {
+    email: string
+    token: string
+    username: string
+    bio: string | null
+    image: string | null
+}
+
+export interface LoginUser {
+    email: string
+    password: string
+}
+
+export interface NewUser {
+    username: string
+    email: string
+    password: string
+}
+
+export interface UpdateUser {
+    email?: string
+    password?: string
+    username?: string
+    bio?: string
+    image?: string
+}
+
+export interface UserResponse {
+    user: User
+}
+
+/* ---------- Profiles ---------- */
+
+export interface Profile {
+    username: string
+    bio: string | null
+    image: string | null
+    following: boolean
+}
+
+export interface ProfileResponse {
+    profile: Profile
+}
+
+/* ---------- Articles ---------- */
+
+export interface Article {
+    slug: string
+    title: string
+    description: string
+    body: string
+    tagList: string[]
+    createdAt: string
+    updatedAt: string
+    favorited: boolean
+    favoritesCount: number
+    author: Profile
+}
+
+export interface NewArticle {
+    title: string
+    description: string
+    body: string
+    tagList?: string[]
+}
+
+export interface UpdateArticle {
+    title?: string
+    description?: string
+    body?: string
+    tagList?: string[]
+}
+
+/* Query parameters of GET /articles */
+export interface ListArticlesParams {
+    tag?: string
+    author?: string
+    favorited?: string
+    limit?: number
+    offset?: number
+}
+
+/* Query parameters of GET /articles/feed */
+export interface FeedParams {
+    limit?: number
+    offset?: number
+}
+
+export interface SingleArticleResponse {
+    article: Article
+}
+
+export interface MultipleArticlesResponse {
+    articles: Article[]
+    articlesCount: number
+}
+
+/* ---------- Comments ---------- */
+
+export interface Comment {
+    id: number
+    createdAt: string
+    updatedAt: string
+    body: string
+    author: Profile
+}
+
+export interface NewComment {
+    body: string
+}
+
+export interface SingleCommentResponse {
+    comment: Comment
+}
+
+export interface MultipleCommentsResponse {
+    comments: Comment[]
+}
+
+/* ---------- Tags ---------- */
+
+export interface TagsResponse {
+    tags: string[]
+}
+
+/* ---------- Errors ---------- */
+
+/* Body of 401/403/422 responses, e.g. { errors: { username: ['is too short'] } } */
+export interface GenericErrorModel {
+    errors: Record<string, string[]>
+}
@@ -0,0 +1,61 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter'
+import { config } from '../api-test.config'
+import { RecordedExchange } from './logger'
+import { API_CALLS_ATTACHMENT, buildCoverage, formatCoverageSummary, loadEndpoints, writeCoverageReport } from './api-coverage'
+
+/* Options accepted in the playwright.config.ts reporter entry */
+export type CoverageReporterOptions = {
+    /* OpenAPI spec or route manifest to compare against (default: config.openApiSpec) */
+    source?: string
+    /* Directory for api-coverage.json and index.html */
+    outputFolder?: string
+}
+
+/**
+ * API Coverage Reporter
+ *
+ * Custom Playwright reporter that collects the API calls each test made (attached
+ * by the api fixture when config.apiCoverage is on), and at the end of the run writes
+ * an endpoint x status code coverage matrix as JSON and HTML.
+ *
+ * Registration (playwright.config.ts):
+ * reporter: [['html'], ['list'], ['./utils/coverage-reporter.ts', { outputFolder: 'api-coverage-report' }]]
+ *
+ * Runs that recorded no API calls (coverage off) produce no report.
+ */
+export default class CoverageReporter implements Reporter {
+    private options: CoverageReporterOptions
+    private calls: RecordedExchange[] = []
+
+    constructor(options: CoverageReporterOptions = {}) {
+        this.options = options
+    }
+
+    onTestEnd(test: TestCase, result: TestResult) {
+        for (const attachment of result.attachments) {
+            if (attachment.name === API_CALLS_ATTACHMENT && attachment.body) {
+                this.calls.push(...JSON.parse(attachment.body.toString('utf-8')))
+            }
+        }
+    }
+
+    async onEnd() {
+        if (this.calls.length === 0) return
+
+        const source = this.options.source ?? config.openApiSpec
+        if (!source) {
+            console.log('API coverage skipped: no OpenAPI spec or route manifest configured')
+            return
+        }
+
+        const outputFolder = this.options.outputFolder ?? 'api-coverage-report'
+        const coverage = buildCoverage(await loadEndpoints(source), this.calls, source)
+        await writeCoverageReport(coverage, outputFolder)
+        console.log(`${formatCoverageSummary(coverage)}. Report: ${outputFolder}/index.html`)
+    }
+
+    /* Leaves console output to the list reporter */
+    printsToStdio() {
+        return false
+    }
+}
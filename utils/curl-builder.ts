@@ -0,0 +1,66 @@
+/**
+ * cURL Builder Module
+ *
+ * This module renders logged or sent API requests as equivalent curl commands,
+ * so a failing call can be reproduced from a terminal by copy-pasting a single block.
+ *
+ * Usage:
+ * buildCurlCommand({ method: 'POST', url: 'https://api.example.com/articles', headers, body })
+ * // curl -X POST 'https://api.example.com/articles' \
+ * //   -H 'Content-Type: application/json' \
+ * //   --data-raw '{"article":{"title":"Test"}}'
+ */
+
+/* Minimal request shape needed to render a curl command */
+export type CurlRequest = {
+    method: string
+    url: string
+    headers?: Record<string, string>
+    body?: any
+}
+
+/**
+ * Renders a request as a multi-line curl command.
+ * JSON bodies are sent with --data-raw and a Content-Type header is added when missing.
+ *
+ * @param request - Method, URL, headers and optional body
+ * @returns string - Shell-ready curl command
+ */
+export function buildCurlCommand(request: CurlRequest) {
+    const method = request.method.toUpperCase()
+    const headers = { ...request.headers }
+    const parts: string[] = []
+
+    /* GET is curl's default; HEAD needs --head so curl doesn't wait for a body */
+    if (method === 'HEAD') {
+        parts.push(`curl --head ${shellQuote(request.url)}`)
+    } else if (method === 'GET') {
+        parts.push(`curl ${shellQuote(request.url)}`)
+    } else {
+        parts.push(`curl -X ${method} ${shellQuote(request.url)}`)
+    }
+
+    const hasBody = request.body !== undefined
+    if (hasBody && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json'
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined || value === '') continue
+        parts.push(`-H ${shellQuote(`${name}: ${value}`)}`)
+    }
+
+    if (hasBody) {
+        const data = typeof request.body === 'string' ? request.body : JSON.stringify(request.body)
+        parts.push(`--data-raw ${shellQuote(data)}`)
+    }
+
+    return parts.join(' \\\n  ')
+}
+
+/**
+ * Wraps a value in single quotes for POSIX shells, escaping embedded single quotes.
+ */
+function shellQuote(value: string) {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+}
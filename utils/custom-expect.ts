@@ -14,11 +14,13 @@
  * 
  * Custom Matchers Provided:
  * - shouldMatchSchema(): Validates API responses against JSON schemas
+ * - shouldMatchOpenApi(): Validates API responses against the OpenAPI spec operation of the last request
  * - shouldEqual(): Enhanced equality assertion with API logs
  * - shouldBeLessThanOrEqual(): Enhanced comparison with API logs
  * 
  * Usage:
  * await expect(response).shouldMatchSchema('articles', 'GET_articles')
+ * await expect(response).shouldMatchOpenApi()
  * expect(response.status).shouldEqual(200)
  * expect(response.data.length).shouldBeLessThanOrEqual(10)
  * 
@@ -29,7 +31,7 @@
 
 import { expect as baseExpect } from '@playwright/test';
 import { APILogger } from './logger';
-import { validateSchema } from './schema-validator';
+import { validateOpenApiResponse, validateSchema } from './schema-validator';
 
 /* Global logger instance shared across all custom expect operations */
 let apiLogger: APILogger
@@ -70,6 +72,9 @@ declare global {
             
             /* JSON schema validation matcher with optional schema generation */
             shouldMatchSchema(dirName: string, fileName: string, createSchemaFlag?: boolean): Promise<R>
+
+            /* OpenAPI validation matcher driven by the last recorded request */
+            shouldMatchOpenApi(): Promise<R>
         }
     }
 }
@@ -129,6 +134,46 @@ export const expect = baseExpect.extend({
         };
     },
     
+    /**
+     * OpenAPI Validation Matcher
+     * 
+     * Validates API response data against the OpenAPI spec (config.openApiSpec).
+     * The operation and status are taken from the last request recorded by APILogger,
+     * so call it right after the request that produced the response.
+     * Without a configured spec, the endpoint's response-schemas/ file is used instead.
+     * 
+     * @param received - The API response object to validate
+     * @returns Promise<MatcherResult> - Playwright matcher result object
+     * 
+     * Usage Examples:
+     * const response = await api.path('/articles').getRequest(200)
+     * await expect(response).shouldMatchOpenApi() // GET /articles 200 from the spec
+     */
+    async shouldMatchOpenApi(received: any) {
+        let pass: boolean;
+        let message: string = ''
+
+        try {
+            const exchange = apiLogger?.getLastExchange()
+            if (!exchange) throw new Error('shouldMatchOpenApi() needs a request recorded by APILogger, none was sent yet')
+
+            /* Perform validation against the operation of the last request */
+            await validateOpenApiResponse(exchange, received)
+            pass = true;
+            message = 'OpenAPI validation passed'
+        } catch (e: any) {
+            /* Validation failed - include API logs for debugging context */
+            pass = false;
+            const logs = apiLogger?.getRecentLogs() ?? ''
+            message = `${e.message}\n\nRecent API Activity: \n${logs}`
+        }
+
+        return {
+            message: () => message,
+            pass
+        };
+    },
+
     /**
      * Enhanced Equality Matcher
      * 
@@ -13,8 +13,13 @@
  * - Clean test code without repetitive setup
  * 
  * Custom Fixtures Provided:
- * - authToken: Worker-scoped authentication token (shared across tests)
+ * - authToken: Worker-scoped AuthSession for the configured AuthProvider (shared across tests, renewed on 401)
+ * - userSessions: Worker-scoped sessions of the named users in config.users (logged in on first use)
  * - api: Test-scoped RequestHandler instance with logging and auth
+ * - apiAs: Test-scoped factory for RequestHandlers acting as a named user, e.g. apiAs('reader')
+ * - conduit: Test-scoped typed Conduit client built on the api fixture
+ * - storageState: Browser storage state logging the web app in with the authToken credentials,
+ *   so UI tests share the API session (create data with api, verify it with page)
  * - config: Environment configuration access
  * 
  * Usage in Tests:
@@ -26,10 +31,14 @@
 
 import { test as base } from '@playwright/test';
 import { RequestHandler } from '../utils/request-handler';
+import { ConduitClient } from './conduit-client';
 import { APILogger } from './logger';
 import { setCustomExpectLogger } from './custom-expect';
 import { config } from '../api-test.config';
-import { createToken } from '../helpers/createToken';
+import { AuthSession, UserSessions, authRedaction, createAuthProvider } from './auth-providers';
+import { buildHar, writeHar, TEST_HAR_FILE_NAME } from './har-exporter';
+import { API_CALLS_ATTACHMENT } from './api-coverage';
+import { buildUiStorageState } from './ui-session';
 
 /**
  * Type definition for test-scoped fixtures.
@@ -44,6 +53,12 @@ import { createToken } from '../helpers/createToken';
 export type TestOptions = {
     /* RequestHandler instance with logging, authentication, and fluent API */
     api: RequestHandler
+
+    /* RequestHandler sending every request as a named user from config.users, sharing the api fixture's logger */
+    apiAs: (user: string) => RequestHandler
+
+    /* Typed Conduit endpoint clients sharing the api fixture's RequestHandler */
+    conduit: ConduitClient
     
     /* Configuration object with environment-specific settings */
     config: typeof config
@@ -61,8 +76,11 @@ export type TestOptions = {
  * - Optimizes performance for expensive setup operations
  */
 export type WorkerFixture = {
-    /* Authentication token shared across all tests in worker */
-    authToken: string
+    /* Credentials (headers/query parameters) shared across all tests in worker, renewed on 401 */
+    authToken: AuthSession
+
+    /* Sessions of the named users in config.users, shared across all tests in worker */
+    userSessions: UserSessions
 }
 
 /**
@@ -71,7 +89,8 @@ export type WorkerFixture = {
  * while maintaining all of Playwright's built-in functionality.
  * 
  * Fixture Dependency Graph:
- * authToken (worker) → api (test) → test execution
+ * authToken (worker) → api (test) → conduit (test) → test execution
+ * userSessions (worker) ↗          ↘ apiAs (test) ↗
  *                   ↗ config (test) ↗
  * 
  * The extend() method defines how each fixture is created and what
@@ -91,17 +110,35 @@ export const test = base.extend<TestOptions, WorkerFixture>({
      * Scope: 'worker' - Created once per worker, shared across tests
      * Dependencies: None (uses configuration directly)
      * 
-     * The token is created by logging in with credentials from the config
-     * and remains valid for the duration of the worker lifecycle.
+     * The credentials come from the AuthProvider selected by config.auth
+     * (Conduit login by default; bearer, apiKey, basic, oauth2 or none for other APIs)
+     * When a request is rejected with 401 (e.g. the JWT expired during a long run),
+     * RequestHandler renews the session once and replays the request; every test
+     * of the worker then uses the renewed credentials.
+     * 
+     * With config.tokenCache, a cached token that is not near expiry is used
+     * instead of logging in (see utils/token-cache.ts).
      */
     authToken: [ async ({}, use) => {
-        /* Create authentication token using configured user credentials */
-        const authToken = await createToken(config.userEmail, config.userPassword)
+        /* Authenticate with the scheme configured for the current environment */
+        const authToken = await AuthSession.start(createAuthProvider(config.auth, 'default'))
         
         /* Provide the token to dependent fixtures and tests */
         await use(authToken)
     }, {scope: 'worker'}], /* Worker scope: shared across all tests in worker */
 
+    /**
+     * Worker-scoped named user sessions.
+     * Each user from config.users logs in the first time a test uses it
+     * (api.as('reader') or apiAs('reader')) and is reused by the worker's later tests.
+     * 
+     * Scope: 'worker' - Created once per worker, shared across tests
+     * Dependencies: None (uses config.users directly)
+     */
+    userSessions: [ async ({}, use) => {
+        await use(new UserSessions(config.users))
+    }, {scope: 'worker'}],
+
     /**
      * Test-scoped API RequestHandler fixture.
      * Creates a fresh RequestHandler instance for each test with logging,
@@ -112,31 +149,133 @@ export const test = base.extend<TestOptions, WorkerFixture>({
      * 2. Configures custom expect matchers with logger integration
      * 3. Initializes RequestHandler with all dependencies
      * 4. Provides ready-to-use API client to the test
+     * 5. On teardown, attaches the API log transcript and curl commands to the report
+     *    (controlled by config.attachApiLogs: 'always', 'on-failure' or 'never')
+     * 6. On teardown, writes the test's traffic as a HAR file when config.exportHar is on
+     * 7. On teardown, hands the test's API calls to the coverage reporter when config.apiCoverage is on
      * 
      * Dependencies:
      * - request: Playwright's built-in APIRequestContext
-     * - authToken: Worker-scoped authentication token
+     * - authToken: Worker-scoped credentials
+     * - userSessions: Worker-scoped named user sessions (for .as())
      * 
      * Features Provided:
      * - Fluent API interface for HTTP requests
-     * - Automatic authentication token injection
+     * - Automatic credential injection (headers or query parameters)
      * - Comprehensive request/response logging
      * - Status code validation with detailed error reporting
      */
-    api: async({request, authToken}, use) => {
-        /* Create logger instance for this test's API activity */
-        const logger = new APILogger()
+    api: async({request, authToken, userSessions}, use, testInfo) => {
+        /* Create logger instance for this test's API activity, redacting secrets (including custom credential names) */
+        const credentialRedaction = authRedaction(authToken.current)
+        const logger = new APILogger({
+            ...config.logRedaction,
+            headers: [...config.logRedaction.headers, ...credentialRedaction.headers],
+            fields: [...config.logRedaction.fields, ...credentialRedaction.fields]
+        })
         
         /* Configure custom expect matchers to use this logger for error context */
         setCustomExpectLogger(logger)
         
-        /* Create RequestHandler with all dependencies: context, base URL, logger, auth token */
-        const requestHandler = new RequestHandler(request, config.apiUrl, logger, authToken)
+        /* Create RequestHandler with all dependencies: context, base URL, logger, credentials, retry and timeout defaults */
+        const requestHandler = new RequestHandler(request, config.apiUrl, logger, authToken, {
+            retry: config.retry,
+            timeout: config.requestTimeout,
+            curlWithSecrets: config.curlWithSecrets,
+            users: userSessions
+        })
         
         /* Provide the configured RequestHandler to the test */
         await use(requestHandler)
+
+        /* Attach the API traffic so it can be inspected from the HTML report */
+        const testFailed = testInfo.status !== testInfo.expectedStatus
+        const shouldAttach = config.attachApiLogs === 'always' || (config.attachApiLogs === 'on-failure' && testFailed)
+        if (shouldAttach && logger.getLogEntries().length > 0) {
+            await testInfo.attach('api-logs.json', {
+                body: JSON.stringify(logger.getLogEntries(), null, 4),
+                contentType: 'application/json'
+            })
+            await testInfo.attach('api-logs.txt', {
+                body: logger.getRecentLogs(),
+                contentType: 'text/plain'
+            })
+            await testInfo.attach('api-curl.sh', {
+                body: logger.getCurlCommands().join('\n\n'),
+                contentType: 'text/plain'
+            })
+        }
+
+        /* Export the traffic as HAR 1.2; global teardown merges these files per run */
+        if (config.exportHar && logger.getLogEntries().length > 0) {
+            const harPath = testInfo.outputPath(TEST_HAR_FILE_NAME)
+            await writeHar(harPath, buildHar(logger.getLogEntries(), testInfo.titlePath.join(' › ')))
+            await testInfo.attach(TEST_HAR_FILE_NAME, { path: harPath, contentType: 'application/json' })
+        }
+
+        /* Method, URL and status of every call, aggregated by utils/coverage-reporter.ts */
+        if (config.apiCoverage && logger.getExchanges().length > 0) {
+            await testInfo.attach(API_CALLS_ATTACHMENT, {
+                body: JSON.stringify(logger.getExchanges()),
+                contentType: 'application/json'
+            })
+        }
     },
     
+    /**
+     * Test-scoped named user factory.
+     * Returns RequestHandlers that send every request as a user from config.users,
+     * for authorization tests across users in one line.
+     * 
+     * Usage in Tests:
+     * await apiAs('reader').path(`/articles/${slug}`).deleteRequest(403)
+     * 
+     * Dependencies:
+     * - api: The test's RequestHandler (its logger and options are shared)
+     */
+    apiAs: async({api}, use) => {
+        await use(user => api.withUser(user))
+    },
+
+    /**
+     * Test-scoped typed Conduit client fixture.
+     * Wraps the test's RequestHandler, so calls share its logger, auth token
+     * and report attachments.
+     * 
+     * Usage in Tests:
+     * const { article } = await conduit.articles.create({ title, description, body })
+     * 
+     * Dependencies:
+     * - api: The test's RequestHandler
+     */
+    conduit: async({api}, use) => {
+        await use(new ConduitClient(api))
+    },
+
+    /**
+     * Browser storage state for UI tests (overrides Playwright's storageState option).
+     * The web app reads its JWT from localStorage, so the worker's authToken is written
+     * there for config.uiUrl: pages open logged in as the same user as the api fixture,
+     * without going through the sign-in form.
+     * 
+     * Usage in Tests:
+     * test('Article shows in the UI', async ({ api, page }) => {
+     *     const { article } = await api.path('/articles').body(getNewRandomArticle()).postRequest(201)
+     *     await page.goto(`/article/${article.slug}`)
+     * })
+     * 
+     * Logged-out UI tests: test.use({ storageState: { cookies: [], origins: [] } })
+     * Schemes without a token (API key, basic) keep Playwright's default, and so does
+     * TEST_ENV=local: mock server tokens are not valid for the remote web app.
+     * 
+     * Dependencies:
+     * - authToken: Worker-scoped credentials (only evaluated by tests that open a browser context)
+     */
+    storageState: async({authToken, contextOptions}, use) => {
+        const uiState = config.useMockServer ? undefined : buildUiStorageState(authToken.current)
+        await use(uiState ?? contextOptions.storageState)
+    },
+
     /**
      * Test-scoped configuration fixture.
      * Provides access to environment-specific configuration settings.
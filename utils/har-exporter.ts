@@ -0,0 +1,200 @@
+/**
+ * HAR Exporter Module
+ *
+ * This module converts the structured API activity recorded by APILogger into
+ * HAR 1.2 (HTTP Archive) files, so test traffic can be replayed or inspected in
+ * standard tools (browser dev tools, HAR viewers) and diffed between environments.
+ *
+ * Features:
+ * - Builds a HAR log from APILogger entries (request/response pairs with timings)
+ * - Writes per-test HAR files
+ * - Merges per-test HAR files into a single file for the whole run
+ *
+ * Usage:
+ * const har = buildHar(logger.getLogEntries(), 'Create and Delete Article')
+ * await writeHar(testInfo.outputPath('api-traffic.har'), har)
+ * await mergeHarFiles(['a.har', 'b.har'], 'test-results/api-traffic.har')
+ *
+ * Note: Entries are built from the logger's stored data, so secrets are
+ * already redacted and response bodies appear as serialized JSON.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+/* Name/value pair used for headers and query strings */
+export type HarNameValue = { name: string, value: string }
+
+/* A single request/response exchange in HAR 1.2 format */
+export type HarEntry = {
+    startedDateTime: string
+    time: number
+    comment?: string
+    request: {
+        method: string
+        url: string
+        httpVersion: string
+        cookies: HarNameValue[]
+        headers: HarNameValue[]
+        queryString: HarNameValue[]
+        postData?: { mimeType: string, text: string }
+        headersSize: number
+        bodySize: number
+    }
+    response: {
+        status: number
+        statusText: string
+        httpVersion: string
+        cookies: HarNameValue[]
+        headers: HarNameValue[]
+        content: { size: number, mimeType: string, text?: string }
+        redirectURL: string
+        headersSize: number
+        bodySize: number
+    }
+    cache: {}
+    timings: { send: number, wait: number, receive: number }
+}
+
+/* Root object of a HAR 1.2 file */
+export type Har = {
+    log: {
+        version: string
+        creator: { name: string, version: string }
+        entries: HarEntry[]
+    }
+}
+
+/* File name of the per-test HAR files written by the api fixture */
+export const TEST_HAR_FILE_NAME = 'api-traffic.har'
+
+/* Creator information written into every HAR file */
+const HAR_CREATOR = { name: 'pw-api-testing', version: '1.0.0' }
+
+/**
+ * Builds a HAR 1.2 document from APILogger entries.
+ * Each 'Request Details' entry is paired with the next 'Response Details' entry;
+ * requests without a response (e.g. network errors) are recorded with status 0.
+ *
+ * @param logEntries - Entries returned by APILogger.getLogEntries()
+ * @param comment - Optional comment stored on every entry (e.g. the test title)
+ * @returns Har - The HAR document
+ */
+export function buildHar(logEntries: any[], comment?: string): Har {
+    const entries: HarEntry[] = []
+
+    for (let index = 0; index < logEntries.length; index++) {
+        const requestLog = logEntries[index]
+        if (requestLog.type !== 'Request Details') continue
+
+        /* Find the matching response before the next request starts */
+        let responseLog: any
+        for (let next = index + 1; next < logEntries.length; next++) {
+            if (logEntries[next].type === 'Request Details') break
+            if (logEntries[next].type === 'Response Details') {
+                responseLog = logEntries[next]
+                break
+            }
+        }
+
+        entries.push(toHarEntry(requestLog, responseLog, comment))
+    }
+
+    return { log: { version: '1.2', creator: HAR_CREATOR, entries } }
+}
+
+/**
+ * Writes a HAR document to disk, creating the directory if needed.
+ *
+ * @param filePath - Destination file path (conventionally *.har)
+ * @param har - HAR document to write
+ */
+export async function writeHar(filePath: string, har: Har) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(har, null, 4))
+}
+
+/**
+ * Merges several HAR files into one, ordering entries by start time.
+ *
+ * @param filePaths - HAR files to merge
+ * @param outputPath - Destination of the merged HAR file
+ * @returns Promise<Har> - The merged HAR document
+ */
+export async function mergeHarFiles(filePaths: string[], outputPath: string) {
+    const entries: HarEntry[] = []
+    for (const filePath of filePaths) {
+        const har: Har = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+        entries.push(...har.log.entries)
+    }
+    entries.sort((first, second) => first.startedDateTime.localeCompare(second.startedDateTime))
+
+    const merged: Har = { log: { version: '1.2', creator: HAR_CREATOR, entries } }
+    await writeHar(outputPath, merged)
+    return merged
+}
+
+/**
+ * Converts one logged request (and its response, if any) into a HAR entry.
+ */
+function toHarEntry(requestLog: any, responseLog: any | undefined, comment?: string): HarEntry {
+    const { method, url, headers, body } = requestLog.data
+    const requestText = body === undefined ? undefined : JSON.stringify(body)
+
+    const responseHeaders: Record<string, string> = responseLog?.meta?.headers ?? {}
+    const responseBody = responseLog?.data.body
+    const responseText = responseBody === undefined ? undefined : JSON.stringify(responseBody)
+    const time = responseLog?.meta?.durationMs ?? 0
+
+    const entry: HarEntry = {
+        startedDateTime: requestLog.meta?.startedDateTime ?? new Date(0).toISOString(),
+        time,
+        request: {
+            method,
+            url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toNameValues(headers),
+            queryString: queryStringOf(url),
+            headersSize: -1,
+            bodySize: requestText === undefined ? 0 : Buffer.byteLength(requestText)
+        },
+        response: {
+            status: responseLog?.data.statusCode ?? 0,
+            statusText: responseLog?.meta?.statusText ?? (responseLog ? '' : 'No Response'),
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toNameValues(responseHeaders),
+            content: {
+                size: responseText === undefined ? 0 : Buffer.byteLength(responseText),
+                mimeType: responseHeaders['content-type'] ?? 'application/json',
+                text: responseText
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: responseText === undefined ? 0 : Buffer.byteLength(responseText)
+        },
+        cache: {},
+        timings: { send: 0, wait: time, receive: 0 }
+    }
+
+    if (requestText !== undefined) {
+        entry.request.postData = { mimeType: 'application/json', text: requestText }
+    }
+    if (comment) {
+        entry.comment = comment
+    }
+    return entry
+}
+
+function toNameValues(record: Record<string, string> = {}): HarNameValue[] {
+    return Object.entries(record).map(([name, value]) => ({ name, value: String(value) }))
+}
+
+function queryStringOf(url: string): HarNameValue[] {
+    try {
+        return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }))
+    } catch (error) {
+        return []
+    }
+}
@@ -11,6 +11,8 @@
  * - Formatted output for debugging
  * - Integration with error reporting
  * - Recent activity retrieval for context
+ * - Redaction of secrets (auth headers, passwords, tokens) before storage
+ * - Ready-to-run curl commands for every logged request
  * 
  * Integration Points:
  * - RequestHandler: Logs all HTTP requests/responses automatically
@@ -18,12 +20,63 @@
  * - Error Handling: Provides context for debugging test failures
  * 
  * Usage:
- * const logger = new APILogger()
+ * const logger = new APILogger()                                  // default redaction rules
+ * const logger = new APILogger({ headers: ['X-Session'] })        // defaults plus extra rules
  * logger.logRequest('GET', '/api/articles', headers, body)
  * logger.logResponse(200, responseBody)
  * console.log(logger.getRecentLogs()) // Get formatted log output
  */
 
+import { buildCurlCommand } from './curl-builder';
+
+/**
+ * Redaction rules applied to every log entry before it is stored.
+ * 
+ * - headers: header names to mask (case-insensitive)
+ * - fields: body keys and query parameter names to mask at any depth (case-insensitive)
+ * - jsonPaths: dotted body paths to mask; '*' matches any key or array index (e.g. 'articles.*.author.email')
+ * - patterns: regular expressions masked inside any remaining string, header value or URL
+ * - replacement: text written in place of a secret
+ */
+export type RedactionOptions = {
+    headers: string[]
+    fields: string[]
+    jsonPaths: string[]
+    patterns: RegExp[]
+    replacement: string
+}
+
+/**
+ * Default redaction rules covering Conduit credentials and common auth schemes.
+ * Rules passed to the APILogger constructor are added on top of these.
+ */
+export const DEFAULT_REDACTION: RedactionOptions = {
+    headers: ['Authorization', 'Proxy-Authorization', 'Cookie', 'Set-Cookie', 'X-API-Key'],
+    fields: ['password', 'token', 'accessToken', 'refreshToken', 'access_token', 'refresh_token', 'client_secret', 'apiKey', 'api_key'],
+    jsonPaths: ['user.password', 'user.token'],
+    patterns: [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g], /* JSON Web Tokens */
+    replacement: '[REDACTED]'
+}
+
+/**
+ * Transport details of a response that are recorded alongside the log entry
+ * (kept out of getRecentLogs() output, used for HAR export).
+ */
+export type ResponseMeta = {
+    statusText?: string
+    headers?: Record<string, string>
+    durationMs?: number
+}
+
+/**
+ * Method, URL and status of a completed request/response pair.
+ */
+export type RecordedExchange = {
+    method: string
+    url: string
+    statusCode: number
+}
+
 /**
  * APILogger Class
  * 
@@ -33,12 +86,17 @@
  * 
  * Log Structure:
  * Each log entry contains:
- * - type: 'Request Details' or 'Response Details'
+ * - type: 'Request Details', 'Response Details', 'Retry Details' or 'Auth Refresh Details'
  * - data: Object containing the actual request/response information
+ * - meta: Timestamps, response headers and timings (not printed, used for HAR export)
  * 
  * Memory Management:
  * Logs are stored in memory for the duration of the test execution.
  * Each logger instance maintains its own log collection.
+ * 
+ * Security:
+ * Secrets are redacted before an entry is stored, so neither getRecentLogs()
+ * nor anything built from it (error messages, reports) can leak them.
  */
 export class APILogger {
 
@@ -48,15 +106,39 @@ export class APILogger {
      * 
      * Entry Format:
      * {
-     *   type: 'Request Details' | 'Response Details',
+     *   type: 'Request Details' | 'Response Details' | 'Retry Details' | 'Auth Refresh Details',
      *   data: {
      *     // Request data: method, url, headers, body
      *     // Response data: statusCode, body
+     *     // Retry data: attempt, attempts, reason, delayMs
+     *     // Auth refresh data: scheme, reason, replayed
+     *   },
+     *   meta: {
+     *     // Request meta: startedDateTime
+     *     // Response meta: statusText, headers, durationMs
      *   }
      * }
      */
     private recentLogs: any[] = []
 
+    /* Effective redaction rules: defaults plus constructor additions */
+    private redaction: RedactionOptions
+
+    /**
+     * Constructor for APILogger
+     * 
+     * @param redaction - Extra redaction rules added to DEFAULT_REDACTION (optional)
+     */
+    constructor(redaction: Partial<RedactionOptions> = {}) {
+        this.redaction = {
+            headers: [...DEFAULT_REDACTION.headers, ...(redaction.headers ?? [])],
+            fields: [...DEFAULT_REDACTION.fields, ...(redaction.fields ?? [])],
+            jsonPaths: [...DEFAULT_REDACTION.jsonPaths, ...(redaction.jsonPaths ?? [])],
+            patterns: [...DEFAULT_REDACTION.patterns, ...(redaction.patterns ?? [])],
+            replacement: redaction.replacement ?? DEFAULT_REDACTION.replacement
+        }
+    }
+
     /**
      * Logs details of an outgoing HTTP request.
      * Captures all relevant information needed for debugging and analysis.
@@ -77,11 +159,16 @@ export class APILogger {
      *                   { article: { title: 'Test' } })
      */
     logRequest(method: string, url: string, headers: Record<string, string>, body?: any){
-        /* Create structured log entry for the request */
-        const logEntry = {method, url, headers, body}
+        /* Create structured log entry for the request with secrets redacted */
+        const logEntry = {
+            method,
+            url: this.redactUrl(url),
+            headers: this.redactHeaders(headers),
+            body: this.redactValue(body)
+        }
         
-        /* Add to recent logs with descriptive type identifier */
-        this.recentLogs.push({type: 'Request Details', data: logEntry})
+        /* Add to recent logs with descriptive type identifier and start time */
+        this.recentLogs.push({type: 'Request Details', data: logEntry, meta: {startedDateTime: new Date().toISOString()}})
     }
 
     /**
@@ -90,6 +177,7 @@ export class APILogger {
      * 
      * @param statusCode - HTTP status code returned by the server
      * @param body - Response body data (optional, may be empty for some responses)
+     * @param meta - Status text, response headers and duration (optional, used for HAR export)
      * 
      * Logged Information:
      * - HTTP status code (200, 201, 404, 500, etc.)
@@ -99,12 +187,119 @@ export class APILogger {
      * logger.logResponse(200, { articles: [...], articlesCount: 10 })
      * logger.logResponse(204) // For responses with no body
      */
-    logResponse(statusCode: number, body?: any){
-        /* Create structured log entry for the response */
-        const logEntry = {statusCode, body}
+    logResponse(statusCode: number, body?: any, meta: ResponseMeta = {}){
+        /* Create structured log entry for the response with secrets redacted */
+        const logEntry = {statusCode, body: this.redactValue(body)}
+        const logMeta = {...meta, headers: this.redactHeaders(meta.headers)}
         
         /* Add to recent logs with descriptive type identifier */
-        this.recentLogs.push({type: 'Response Details', data: logEntry})
+        this.recentLogs.push({type: 'Response Details', data: logEntry, meta: logMeta})
+    }
+
+    /**
+     * Logs that a request is about to be retried after a transient failure.
+     * 
+     * @param attempt - Number of the upcoming attempt (2 for the first retry)
+     * @param attempts - Maximum number of attempts allowed by the retry policy
+     * @param reason - What triggered the retry (e.g. 'status 503', 'read ECONNRESET')
+     * @param delayMs - Backoff delay before the next attempt in milliseconds
+     * 
+     * Usage:
+     * logger.logRetry(2, 3, 'status 503', 500)
+     */
+    logRetry(attempt: number, attempts: number, reason: string, delayMs: number){
+        /* Create structured log entry for the retry */
+        const logEntry = {attempt, attempts, reason, delayMs}
+        
+        /* Add to recent logs with descriptive type identifier */
+        this.recentLogs.push({type: 'Retry Details', data: logEntry})
+    }
+
+    /**
+     * Logs that the credentials were renewed after an authenticated request was rejected.
+     * 
+     * @param scheme - Authentication scheme of the renewed credentials (e.g. 'conduit')
+     * @param reason - What triggered the refresh (e.g. 'status 401 from GET https://api/user')
+     * @param replayed - Whether the request is sent again with the new credentials
+     * 
+     * Usage:
+     * logger.logAuthRefresh('conduit', 'status 401 from GET https://api/user', true)
+     */
+    logAuthRefresh(scheme: string, reason: string, replayed: boolean){
+        /* Create structured log entry for the refresh (no credentials are recorded) */
+        const logEntry = {scheme, reason, replayed}
+        
+        /* Add to recent logs with descriptive type identifier */
+        this.recentLogs.push({type: 'Auth Refresh Details', data: logEntry})
+    }
+
+    /**
+     * Returns the structured log entries recorded so far.
+     * Useful for machine-readable exports such as report attachments.
+     * 
+     * @returns Array of { type, data } entries in the order they were logged
+     */
+    getLogEntries(){
+        return structuredClone(this.recentLogs)
+    }
+
+    /**
+     * Returns every request that received a response, oldest first.
+     * Retried attempts appear as separate exchanges.
+     * 
+     * @returns RecordedExchange[] - Method, URL and status of each exchange
+     * 
+     * Usage:
+     * logger.getExchanges().map(exchange => `${exchange.method} ${exchange.url} ${exchange.statusCode}`)
+     */
+    getExchanges(): RecordedExchange[] {
+        const exchanges: RecordedExchange[] = []
+        let requestLog: any
+        for (const log of this.recentLogs) {
+            if (log.type === 'Request Details') requestLog = log
+            if (log.type === 'Response Details' && requestLog) {
+                exchanges.push({ method: requestLog.data.method, url: requestLog.data.url, statusCode: log.data.statusCode })
+                requestLog = undefined
+            }
+        }
+        return exchanges
+    }
+
+    /**
+     * Returns the most recent request that received a response.
+     * Used by assertions that need to know which endpoint produced the value under test.
+     * 
+     * @returns RecordedExchange | undefined - undefined if no response was logged yet
+     * 
+     * Usage:
+     * const { method, url, statusCode } = logger.getLastExchange()
+     */
+    getLastExchange(): RecordedExchange | undefined {
+        return this.getExchanges().at(-1)
+    }
+
+    /**
+     * Renders every logged request as an equivalent curl command.
+     * Commands are built from the stored (redacted) data, so secrets appear as the replacement text.
+     * 
+     * @returns string[] - One curl command per logged request, oldest first
+     * 
+     * Usage:
+     * logger.getCurlCommands().forEach(command => console.log(command))
+     */
+    getCurlCommands(){
+        return this.recentLogs
+            .filter(log => log.type === 'Request Details')
+            .map(log => buildCurlCommand(log.data))
+    }
+
+    /**
+     * Renders the most recent logged request as a curl command.
+     * 
+     * @returns string | undefined - curl command, or undefined if nothing was logged
+     */
+    getLastCurlCommand(){
+        return this.getCurlCommands().at(-1)
     }
 
     /**
@@ -145,4 +340,84 @@ export class APILogger {
         return logs
     }
 
-}
\ No newline at end of file
+    /**
+     * Masks configured headers and any pattern matches in the remaining header values.
+     * 
+     * @param headers - Headers as sent with the request
+     * @returns Record<string, string> - Redacted copy of the headers
+     */
+    private redactHeaders(headers: Record<string, string> = {}) {
+        const secretHeaders = this.redaction.headers.map(name => name.toLowerCase())
+        const redacted: Record<string, string> = {}
+        for (const [name, value] of Object.entries(headers)) {
+            redacted[name] = secretHeaders.includes(name.toLowerCase())
+                ? this.redaction.replacement
+                : this.redactString(String(value))
+        }
+        return redacted
+    }
+
+    /**
+     * Masks secret query parameters (matched by field name) and pattern matches in a URL.
+     * 
+     * @param url - Complete request URL
+     * @returns string - Redacted URL
+     */
+    private redactUrl(url: string) {
+        let parsedUrl: URL
+        try {
+            parsedUrl = new URL(url)
+        } catch (error) {
+            return this.redactString(url)
+        }
+
+        for (const name of [...parsedUrl.searchParams.keys()]) {
+            if (this.isSecretField(name)) parsedUrl.searchParams.set(name, this.redaction.replacement)
+        }
+        /* Keep the replacement readable instead of percent-encoded */
+        const redactedUrl = parsedUrl.toString().replaceAll(encodeURIComponent(this.redaction.replacement), this.redaction.replacement)
+        return this.redactString(redactedUrl)
+    }
+
+    /**
+     * Recursively copies a body, masking secret fields, configured JSON paths and pattern matches.
+     * 
+     * @param value - Body (or nested value) to redact
+     * @param path - Keys leading to this value, used for jsonPaths matching
+     * @returns Redacted deep copy of the value
+     */
+    private redactValue(value: any, path: string[] = []): any {
+        if (typeof value === 'string') return this.redactString(value)
+        if (Array.isArray(value)) return value.map((item, index) => this.redactValue(item, [...path, String(index)]))
+        if (typeof value !== 'object' || value === null) return value
+
+        const redacted: Record<string, any> = {}
+        for (const [key, nestedValue] of Object.entries(value)) {
+            const nestedPath = [...path, key]
+            redacted[key] = this.isSecretField(key) || this.matchesJsonPath(nestedPath)
+                ? this.redaction.replacement
+                : this.redactValue(nestedValue, nestedPath)
+        }
+        return redacted
+    }
+
+    private redactString(value: string) {
+        return this.redaction.patterns.reduce((result, pattern) => {
+            /* Every match is masked, also for patterns written without the g flag */
+            const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g')
+            return result.replace(global, this.redaction.replacement)
+        }, value)
+    }
+
+    private isSecretField(name: string) {
+        return this.redaction.fields.some(field => field.toLowerCase() === name.toLowerCase())
+    }
+
+    private matchesJsonPath(path: string[]) {
+        return this.redaction.jsonPaths.some(jsonPath => {
+            const segments = jsonPath.split('.')
+            return segments.length === path.length && segments.every((segment, index) => segment === '*' || segment === path[index])
+        })
+    }
+
+}
@@ -0,0 +1,227 @@
+/**
+ * OpenAPI Spec Module
+ *
+ * This module reads a local OpenAPI 3 document (JSON) and looks up the response
+ * schema of the operation that served a recorded request, so responses can be
+ * validated against the published contract instead of hand-written schema files.
+ *
+ * Features:
+ * - Matches concrete URLs to path templates ('/api/articles/my-slug' -> '/articles/{slug}')
+ *   after stripping the API base path of config.apiUrl ('/api')
+ * - Resolves responses by exact status, status range ('2XX') or 'default'
+ * - Converts OpenAPI schemas to plain JSON Schema for AJV (component $refs, OpenAPI-only keywords)
+ *
+ * Usage:
+ * const spec = await loadOpenApiSpec('./openapi/conduit.json')
+ * const operation = findOperation(spec, 'GET', 'https://host/api/articles?limit=10')
+ * const response = findResponseSchema(operation, 200)
+ * const jsonSchema = toJsonSchema(spec, response.schema)
+ *
+ * Note: The whole path after the base path must match a template, so '/api/profiles/user'
+ * resolves to '/profiles/{username}' and never to '/user'.
+ */
+
+import fs from 'fs/promises'
+import { config } from '../api-test.config'
+
+/* An operation of the spec, identified by its path template and method */
+export type OpenApiOperation = {
+    method: string
+    pathTemplate: string
+    operation: any
+}
+
+/* The documented response of an operation for one status */
+export type OpenApiResponse = {
+    /* Key of the matching entry in the operation's responses, e.g. '200', '4XX' or 'default' */
+    statusKey: string
+    /* JSON body schema, undefined when the response documents no JSON content */
+    schema?: any
+}
+
+/* HTTP methods that can appear as keys of an OpenAPI path item */
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+/* Keywords that are valid in OpenAPI schema objects but unknown to JSON Schema / AJV */
+const OPENAPI_ONLY_KEYWORDS = ['example', 'xml', 'externalDocs', 'discriminator']
+
+/* Prefix of references to reusable schemas inside the spec */
+const COMPONENT_SCHEMA_REF = '#/components/schemas/'
+
+/* Parsed spec documents keyed by file path, each file is read once per worker */
+const specCache = new Map<string, Promise<any>>()
+
+/**
+ * Loads and parses an OpenAPI 3 document.
+ *
+ * @param specPath - Path to the OpenAPI JSON file
+ * @returns Promise<any> - The parsed document
+ * @throws Error - If the file cannot be read, is not JSON or is not an OpenAPI 3 document
+ */
+export async function loadOpenApiSpec(specPath: string) {
+    let spec = specCache.get(specPath)
+    if (!spec) {
+        spec = readSpec(specPath)
+        specCache.set(specPath, spec)
+        spec.catch(() => specCache.delete(specPath))
+    }
+    return spec
+}
+
+/**
+ * Lists every operation of the spec.
+ *
+ * @param spec - Parsed OpenAPI document
+ * @returns OpenApiOperation[] - One entry per path template and method
+ */
+export function listOperations(spec: any): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = []
+    for (const [pathTemplate, pathItem] of Object.entries<any>(spec.paths ?? {})) {
+        for (const method of OPERATION_METHODS) {
+            if (pathItem[method]) operations.push({ method: method.toUpperCase(), pathTemplate, operation: pathItem[method] })
+        }
+    }
+    return operations
+}
+
+/**
+ * Finds the operation serving a request.
+ * Literal path segments win over templated ones ('/articles/feed' before '/articles/{slug}').
+ *
+ * @param spec - Parsed OpenAPI document
+ * @param method - HTTP method of the request
+ * @param url - Full request URL (query string is ignored)
+ * @returns OpenApiOperation | undefined - undefined if no operation matches
+ */
+export function findOperation(spec: any, method: string, url: string) {
+    return findEndpoint(listOperations(spec), method, url)
+}
+
+/**
+ * Finds the endpoint (spec operation or route manifest entry) serving a request.
+ * The template must match the whole path after the API base path; when several do
+ * ('/articles/feed' and '/articles/{slug}'), literal path segments win over templated ones.
+ *
+ * @param endpoints - Candidates with method and path template
+ * @param method - HTTP method of the request
+ * @param url - Full request URL (query string is ignored)
+ * @param basePath - API base path to strip (default: path of config.apiUrl)
+ * @returns The matching endpoint, or undefined
+ */
+export function findEndpoint<T extends { method: string, pathTemplate: string }>(endpoints: T[], method: string, url: string, basePath?: string): T | undefined {
+    const relativePath = apiPath(url, basePath)
+    return endpoints
+        .filter(candidate => candidate.method === method.toUpperCase() && pathPattern(candidate.pathTemplate).test(relativePath))
+        .sort((first, second) => parameterCount(first.pathTemplate) - parameterCount(second.pathTemplate))[0]
+}
+
+/**
+ * Path of a request URL relative to the API base path, without query string
+ * or trailing slash ('https://host/api/articles/my-slug?limit=1' -> '/articles/my-slug').
+ *
+ * @param url - Full request URL
+ * @param basePath - API base path to strip (default: path of config.apiUrl, e.g. '/api')
+ * @returns string - The relative path, '/' for the base path itself
+ */
+export function apiPath(url: string, basePath: string = new URL(config.apiUrl).pathname) {
+    const base = basePath.replace(/\/+$/, '')
+    const pathname = new URL(url).pathname.replace(/\/+$/, '')
+    const relativePath = base && (pathname === base || pathname.startsWith(`${base}/`)) ? pathname.slice(base.length) : pathname
+    return relativePath || '/'
+}
+
+/**
+ * Picks the documented status key covering a status code.
+ * Lookup order: exact status ('201'), status range ('2XX'), then 'default'.
+ *
+ * @param statusKeys - Documented keys, e.g. ['200', '4XX', 'default']
+ * @param status - Actual HTTP status code
+ * @returns string | undefined - The matching key, or undefined if the status is not documented
+ */
+export function findStatusKey(statusKeys: string[], status: number) {
+    const statusClass = String(status)[0]
+    return [String(status), `${statusClass}XX`, `${statusClass}xx`, 'default'].find(key => statusKeys.includes(key))
+}
+
+/**
+ * Looks up the documented response of an operation for a status code
+ * (exact status, then status range, then 'default').
+ *
+ * @param operation - Operation returned by findOperation()
+ * @param status - Actual HTTP status code
+ * @returns OpenApiResponse | undefined - undefined if the status is not documented
+ */
+export function findResponseSchema(operation: OpenApiOperation, status: number): OpenApiResponse | undefined {
+    const responses = operation.operation.responses ?? {}
+    const statusKey = findStatusKey(Object.keys(responses), status)
+    if (!statusKey) return undefined
+
+    /* Prefer application/json, accept any other JSON media type (e.g. application/problem+json) */
+    const content = responses[statusKey].content ?? {}
+    const mediaType = content['application/json'] ?? Object.entries<any>(content).find(([type]) => type.includes('json'))?.[1]
+    return { statusKey, schema: mediaType?.schema }
+}
+
+/**
+ * Converts an OpenAPI schema object into a standalone JSON schema AJV can compile.
+ * Component schemas are bundled as definitions and '#/components/schemas/X' refs are
+ * rewritten to point at them; OpenAPI-only keywords are dropped. 'nullable' is kept,
+ * AJV supports it natively.
+ *
+ * @param spec - Parsed OpenAPI document the schema belongs to
+ * @param schema - Schema object from the spec (may itself be a $ref)
+ * @returns object - JSON schema
+ */
+export function toJsonSchema(spec: any, schema: any) {
+    return {
+        definitions: convertSchema(spec.components?.schemas ?? {}, true),
+        allOf: [convertSchema(schema)]
+    }
+}
+
+async function readSpec(specPath: string) {
+    let spec: any
+    try {
+        spec = JSON.parse(await fs.readFile(specPath, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Failed to read the OpenAPI spec: ${error.message}`)
+    }
+    if (!String(spec.openapi).startsWith('3.')) {
+        throw new Error(`${specPath} is not an OpenAPI 3 document (openapi: ${spec.openapi})`)
+    }
+    return spec
+}
+
+/**
+ * Recursively rewrites a schema node.
+ * Keys of name maps (properties, definitions) are names, not keywords, and are never dropped.
+ */
+function convertSchema(node: any, isNameMap: boolean = false): any {
+    if (Array.isArray(node)) return node.map(item => convertSchema(item))
+    if (node === null || typeof node !== 'object') return node
+
+    const converted: any = {}
+    for (const [key, value] of Object.entries(node)) {
+        if (!isNameMap && OPENAPI_ONLY_KEYWORDS.includes(key)) continue
+
+        if (!isNameMap && key === '$ref' && typeof value === 'string' && value.startsWith(COMPONENT_SCHEMA_REF)) {
+            converted.$ref = `#/definitions/${value.slice(COMPONENT_SCHEMA_REF.length)}`
+        } else {
+            converted[key] = convertSchema(value, !isNameMap && (key === 'properties' || key === 'patternProperties'))
+        }
+    }
+    return converted
+}
+
+/* '/articles/{slug}' -> matches '/articles/x', but neither '/articles' nor '/articles/x/comments' */
+function pathPattern(pathTemplate: string) {
+    const pattern = (pathTemplate.replace(/\/+$/, '') || '/')
+        .split(/\{[^}]+\}/)
+        .map(literal => literal.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+        .join('[^/]+')
+    return new RegExp(`^${pattern}$`)
+}
+
+function parameterCount(pathTemplate: string) {
+    return (pathTemplate.match(/\{[^}]+\}/g) ?? []).length
+}
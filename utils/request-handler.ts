@@ -4,11 +4,12 @@
  * This module provides a fluent API interface for making HTTP requests in Playwright tests.
  * Features include:
  * - Chainable method syntax for readable test code
- * - Automatic authentication token injection
+ * - Automatic authentication (token string or AuthCredentials from utils/auth-providers.ts)
  * - Comprehensive request/response logging
  * - Built-in status code validation
  * - Automatic cleanup to prevent state leakage
- * - Support for all HTTP methods (GET, POST, PUT, DELETE)
+ * - Support for all HTTP methods (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS)
+ * - Optional request body validation against request-schemas/ before sending
  * 
  * Usage Pattern:
  * const response = await api
@@ -17,12 +18,135 @@
  *   .headers({ 'Custom': 'value' })
  *   .body({ article: {...} })
  *   .postRequest(201)
+ * 
+ * Full Response Pattern (status, headers, cookies, raw text, timing):
+ * const details = await api.path('/tags').fullResponse().getRequest(200)
+ * 
+ * Named Users (config.users, needs the users option, set by the api fixture):
+ * await api.path(`/articles/${slug}`).as('reader').deleteRequest(403)
+ * 
+ * Typed Bodies (the type parameter defaults to any; it is not checked at runtime,
+ * pair it with shouldMatchSchema or use SchemaResponse<'tags', 'GET_tags'> from schema-types.ts):
+ * const tags = await api.path('/tags').getRequest<TagsResponse>(200)
  */
 
 import { APIRequestContext } from "@playwright/test"
 import { APILogger } from "./logger";
+import { buildCurlCommand } from "./curl-builder";
+import { validateRequestBody } from "./schema-validator";
+import { AuthCredentials, AuthSession, StaticAuth, UserSessions } from "./auth-providers";
 import { test } from "@playwright/test"
 
+/* HTTP methods supported by RequestHandler */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
+
+/**
+ * Full response details returned by the fullResponse() request family.
+ * Gives tests access to everything the default body-only return hides.
+ * TBody is the type of the parsed body (any unless given to the verb method).
+ */
+export type APIResponseDetails<TBody = any> = {
+    /* HTTP status code and reason phrase */
+    status: number
+    statusText: string
+
+    /* Response headers with lower-cased names */
+    headers: Record<string, string>
+
+    /* Raw Set-Cookie header values */
+    cookies: string[]
+
+    /* Parsed JSON body ({} or undefined when the body is not JSON) */
+    body: TBody
+
+    /* Unparsed response text */
+    rawText: string
+
+    /* Round-trip time of the HTTP call in milliseconds */
+    durationMs: number
+
+    /* The request exactly as it was sent */
+    request: {
+        method: HttpMethod
+        url: string
+        headers: Record<string, string>
+        body?: object
+    }
+}
+
+/**
+ * Accepted forms of an expected status code:
+ * - 200                   exact code
+ * - [200, 201]            any code from the list
+ * - '4xx'                 any code in the class
+ * - status => status < 500  custom predicate
+ */
+export type ExpectedStatus = number | number[] | StatusClass | ((status: number) => boolean)
+
+/* Status code classes accepted as expectations */
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx'
+
+/* Verb methods available after calling fullResponse() */
+export type FullResponseRequests = Record<
+    'getRequest' | 'postRequest' | 'putRequest' | 'patchRequest' | 'deleteRequest' | 'headRequest' | 'optionsRequest',
+    <TBody = any>(statusCode: ExpectedStatus) => Promise<APIResponseDetails<TBody>>
+>
+
+/* Verbs that send the configured body as JSON */
+const METHODS_WITH_REQUEST_BODY: HttpMethod[] = ['POST', 'PUT', 'PATCH']
+
+/* Verbs whose response body is parsed and returned to the caller */
+const METHODS_WITH_RESPONSE_BODY: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH']
+
+/* Verbs that are safe to repeat, and therefore retried without explicit opt-in */
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE', 'HEAD', 'OPTIONS']
+
+/* Low-level network failures that are treated as transient */
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'socket hang up']
+
+/**
+ * Retry policy for transient failures.
+ * 
+ * - attempts: total number of attempts, including the first one (1 = no retry)
+ * - backoff: initial delay in ms, doubled after every attempt, or a function of the attempt number
+ * - on: status codes that trigger a retry (network errors like ECONNRESET always do)
+ * - retryNonIdempotent: also retry POST/PATCH, which are skipped by default
+ */
+export type RetryPolicy = {
+    attempts: number
+    backoff: number | ((attempt: number) => number)
+    on: number[]
+    retryNonIdempotent?: boolean
+}
+
+/* Fallback policy used when neither the config nor the call specifies a value */
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    attempts: 1,
+    backoff: 500,
+    on: [502, 503, 504],
+    retryNonIdempotent: false
+}
+
+/**
+ * Optional behaviour shared by every request of a RequestHandler instance.
+ */
+export type RequestHandlerOptions = {
+    /* Default retry policy, overridable per call with .retry() */
+    retry?: Partial<RetryPolicy>
+
+    /* Default timeout per HTTP attempt in milliseconds, overridable per call with .timeout() */
+    timeout?: number
+
+    /* Render the curl command in failure messages with real secrets instead of redacted values */
+    curlWithSecrets?: boolean
+
+    /* Sessions of the named users in config.users, used by .as() and withUser() */
+    users?: UserSessions
+
+    /* Named user every request is sent as, unless .as() or .clearAuth() says otherwise */
+    user?: string
+}
+
 /**
  * RequestHandler Class
  * 
@@ -56,25 +180,51 @@ export class RequestHandler {
     /* Request body data for POST/PUT requests */
     private apiBody: object = {}
     
-    /* Default authentication token to inject automatically */
-    private defaultAuthToken: string
+    /* Default credentials (headers and query parameters) to inject automatically, renewed on 401 */
+    private authSession: AuthSession
     
     /* Flag to skip authentication for public endpoints */
     private clearAuthFlag: boolean
 
+    /* Instance-wide options such as the default retry policy */
+    private options: RequestHandlerOptions
+
+    /* Retry policy override for the next request (optional) */
+    private retryPolicy: Partial<RetryPolicy> | undefined
+
+    /* Timeout override in milliseconds for the next request (optional) */
+    private requestTimeout: number | undefined
+
+    /* Request schema the body must match before sending, set by .validateBody() (optional) */
+    private bodySchema: { dirName: string, fileName: string } | undefined
+
+    /* Named user to send this request as, set by .as() (optional) */
+    private requestUser: string | undefined
+
+    /* Last request actually sent, used to build reproduction commands */
+    private lastSentRequest: APIResponseDetails['request'] | undefined
+
     /**
      * Constructor for RequestHandler
      * 
      * @param request - Playwright's APIRequestContext instance
      * @param apiBaseUrl - Base URL for API requests (e.g., 'https://api.example.com')
      * @param logger - APILogger instance for request/response tracking
-     * @param authToken - Default authentication token (optional)
+     * @param auth - Default Authorization header value, credentials from an AuthProvider,
+     *               or an AuthSession to renew them on 401 (optional)
+     * @param options - Instance-wide defaults such as the retry policy (optional)
      */
-    constructor(request: APIRequestContext, apiBaseUrl: string, logger: APILogger, authToken: string = '') {
+    constructor(request: APIRequestContext, apiBaseUrl: string, logger: APILogger, auth: string | AuthCredentials | AuthSession = '', options: RequestHandlerOptions = {}) {
         this.request = request
         this.defaultBaseUrl = apiBaseUrl
         this.logger = logger
-        this.defaultAuthToken = authToken
+        if (auth instanceof AuthSession) {
+            this.authSession = auth
+        } else {
+            const credentials = typeof auth === 'string' ? (auth ? { headers: { Authorization: auth } } : {}) : auth
+            this.authSession = new AuthSession(new StaticAuth(credentials), credentials)
+        }
+        this.options = options
     }
 
     /**
@@ -133,7 +283,7 @@ export class RequestHandler {
     }
 
     /**
-     * Sets the request body for POST/PUT requests.
+     * Sets the request body for POST/PUT/PATCH requests.
      * The body is automatically serialized as JSON.
      * 
      * @param body - Object containing the request body data
@@ -147,7 +297,23 @@ export class RequestHandler {
     }
 
     /**
-     * Clears the default authentication header for this request.
+     * Validates the request body against a request schema before the request is sent.
+     * A mismatch fails the test with every offending field listed, and nothing is sent.
+     * Applies to POST/PUT/PATCH; ignored for verbs without a body.
+     * 
+     * @param dirName - Directory name under request-schemas (e.g., 'articles')
+     * @param fileName - Schema file name without extension (e.g., 'POST_articles')
+     * @returns this (for method chaining)
+     * 
+     * Example: api.path('/articles').body(article).validateBody('articles', 'POST_articles').postRequest(201)
+     */
+    validateBody(dirName: string, fileName: string) {
+        this.bodySchema = { dirName, fileName }
+        return this
+    }
+
+    /**
+     * Clears the default credentials (headers and query parameters) for this request.
      * Useful for testing public endpoints that don't require authentication.
      * 
      * @returns this (for method chaining)
@@ -159,45 +325,102 @@ export class RequestHandler {
         return this
     }
 
+    /**
+     * Sends this request with the credentials of a named user from config.users.
+     * Each user authenticates once per worker and is reused afterwards.
+     * 
+     * @param user - User name, e.g. 'reader'
+     * @returns this (for method chaining)
+     * 
+     * Example: api.path(`/articles/${slug}`).as('reader').deleteRequest(403)
+     */
+    as(user: string) {
+        this.requestUser = user
+        return this
+    }
+
+    /**
+     * Creates a RequestHandler that sends every request as a named user.
+     * It shares this handler's request context, logger and options, so its calls
+     * appear in the same API logs and report attachments.
+     * 
+     * @param user - User name from config.users, e.g. 'reader'
+     * @returns RequestHandler - New handler for that user
+     * 
+     * Example: const reader = api.withUser('reader')
+     */
+    withUser(user: string) {
+        return new RequestHandler(this.request, this.defaultBaseUrl, this.logger, this.authSession, { ...this.options, user })
+    }
+
+    /**
+     * Overrides the retry policy for this request.
+     * Unspecified fields fall back to the instance default from the config.
+     * Only idempotent verbs are retried unless retryNonIdempotent is set.
+     * 
+     * @param policy - Partial retry policy (attempts, backoff, on, retryNonIdempotent)
+     * @returns this (for method chaining)
+     * 
+     * Example: api.path('/articles').retry({ attempts: 3, backoff: 200, on: [502, 503] }).getRequest(200)
+     */
+    retry(policy: Partial<RetryPolicy>) {
+        this.retryPolicy = policy
+        return this
+    }
+
+    /**
+     * Sets the timeout for this request, applied to every attempt.
+     * When it fires, the error names the method and URL and includes recent API activity.
+     * 
+     * @param ms - Timeout in milliseconds (0 disables the timeout)
+     * @returns this (for method chaining)
+     * 
+     * Example: api.path('/articles').timeout(5000).getRequest(200)
+     */
+    timeout(ms: number) {
+        this.requestTimeout = ms
+        return this
+    }
+
+    /**
+     * Switches the request to return full response details instead of only the parsed body.
+     * Must be the last call before the HTTP verb; the returned object exposes the same verbs.
+     * 
+     * @returns FullResponseRequests - Verb methods resolving to APIResponseDetails
+     * 
+     * Example:
+     * const response = await api.path('/tags').fullResponse().getRequest<TagsResponse>(200)
+     * expect(response.headers['content-type']).toContain('application/json')
+     */
+    fullResponse(): FullResponseRequests {
+        const send = (method: HttpMethod) => {
+            /* The verb closure itself trims the stack, so errors point at the test line calling it */
+            const verb = async <TBody = any>(statusCode: ExpectedStatus): Promise<APIResponseDetails<TBody>> => await this.executeRequest<TBody>(method, statusCode, verb)
+            return verb
+        }
+        return {
+            getRequest: send('GET'),
+            postRequest: send('POST'),
+            putRequest: send('PUT'),
+            patchRequest: send('PATCH'),
+            deleteRequest: send('DELETE'),
+            headRequest: send('HEAD'),
+            optionsRequest: send('OPTIONS')
+        }
+    }
+
     /**
      * Executes a GET request with the configured parameters.
      * Automatically logs the request/response and validates the status code.
      * 
-     * @param statusCode - Expected HTTP status code (e.g., 200, 404)
-     * @returns Promise<any> - The parsed JSON response body
+     * @param statusCode - Expected HTTP status code (e.g., 200, [200, 201], '4xx', status => status < 500)
+     * @returns Promise<TBody> - The parsed JSON response body (type parameter, any by default)
      * @throws Error if actual status code doesn't match expected
      * 
-     * Example: const articles = await api.path('/articles').getRequest(200)
+     * Example: const articles = await api.path('/articles').getRequest<MultipleArticlesResponse>(200)
      */
-    async getRequest(statusCode: number) {
-        let responseJSON: any
-
-        const url = this.getUrl()
-        /* Wrap in Playwright test step for better reporting and debugging */
-        await test.step(`GET request to: ${url}`, async () => {
-            /* Log the outgoing request details */
-            this.logger.logRequest('GET', url, this.getHeaders())
-            
-            /* Execute the GET request */
-            const response = await this.request.get(url, {
-                headers: this.getHeaders()
-            })
-            
-            /* Clean up request state to prevent leakage between requests */
-            this.cleanupFields()
-            
-            /* Extract status code and response body */
-            const actualStatus = response.status()
-            responseJSON = await response.json()
-    
-            /* Log the response details */
-            this.logger.logResponse(actualStatus, responseJSON)
-            
-            /* Validate that status code matches expectation */
-            this.statusCodeValidator(actualStatus, statusCode, this.getRequest)
-        })
-
-        return responseJSON
+    async getRequest<TBody = any>(statusCode: ExpectedStatus): Promise<TBody> {
+        return (await this.executeRequest<TBody>('GET', statusCode, this.getRequest, true)).body
     }
 
     /**
@@ -205,41 +428,13 @@ export class RequestHandler {
      * Handles JSON serialization and error cases gracefully.
      * 
      * @param statusCode - Expected HTTP status code (e.g., 201, 400)
-     * @returns Promise<any> - The parsed JSON response body
+     * @returns Promise<TBody> - The parsed JSON response body (type parameter, any by default)
      * @throws Error if actual status code doesn't match expected
      * 
      * Example: const newArticle = await api.path('/articles').body({...}).postRequest(201)
      */
-    async postRequest(statusCode: number) {
-        let responseJSON: any
-        
-        const url = this.getUrl()
-        await test.step(`POST request to: ${url}`, async () => {
-            /* Log request with body data */
-            this.logger.logRequest('POST', url, this.getHeaders(), this.apiBody)
-            
-            /* Execute POST request with JSON body */
-            const response = await this.request.post(url, {
-                headers: this.getHeaders(),
-                data: this.apiBody
-            })
-            
-            this.cleanupFields()
-            const actualStatus = response.status()
-            
-            /* Handle cases where response body might not be valid JSON */
-            try {
-                responseJSON = await response.json()
-            } catch (error) {
-                /* Some endpoints return empty bodies or non-JSON responses */
-                responseJSON = {}
-            }
-            
-            this.logger.logResponse(actualStatus, responseJSON)
-            this.statusCodeValidator(actualStatus, statusCode, this.postRequest)
-        })
-    
-        return responseJSON
+    async postRequest<TBody = any>(statusCode: ExpectedStatus): Promise<TBody> {
+        return (await this.executeRequest<TBody>('POST', statusCode, this.postRequest)).body
     }
 
     /**
@@ -247,39 +442,27 @@ export class RequestHandler {
      * Similar to POST but typically used for updates rather than creation.
      * 
      * @param statusCode - Expected HTTP status code (e.g., 200, 204)
-     * @returns Promise<any> - The parsed JSON response body
+     * @returns Promise<TBody> - The parsed JSON response body (type parameter, any by default)
      * @throws Error if actual status code doesn't match expected
      * 
      * Example: const updated = await api.path('/articles/123').body({...}).putRequest(200)
      */
-    async putRequest(statusCode: number) {
-        let responseJSON: any
+    async putRequest<TBody = any>(statusCode: ExpectedStatus): Promise<TBody> {
+        return (await this.executeRequest<TBody>('PUT', statusCode, this.putRequest)).body
+    }
 
-        const url = this.getUrl()
-        await test.step(`PUT request to: ${url}`, async () => {
-            this.logger.logRequest('PUT', url, this.getHeaders(), this.apiBody)
-            
-            /* Execute PUT request with JSON body */
-            const response = await this.request.put(url, {
-                headers: this.getHeaders(),
-                data: this.apiBody
-            })
-            
-            this.cleanupFields()
-            const actualStatus = response.status()
-            
-            /* Handle potential JSON parsing errors */
-            try {
-                responseJSON = await response.json()
-            } catch (error) {
-                responseJSON = {}
-            }
-            
-            this.logger.logResponse(actualStatus, responseJSON)
-            this.statusCodeValidator(actualStatus, statusCode, this.putRequest)
-        })
-        
-        return responseJSON
+    /**
+     * Executes a PATCH request for partial updates of resources.
+     * Only the fields present in the body are expected to change.
+     * 
+     * @param statusCode - Expected HTTP status code (e.g., 200, 204)
+     * @returns Promise<TBody> - The parsed JSON response body (type parameter, any by default)
+     * @throws Error if actual status code doesn't match expected
+     * 
+     * Example: const patched = await api.path('/users/123').body({ user: { bio: 'New bio' } }).patchRequest(200)
+     */
+    async patchRequest<TBody = any>(statusCode: ExpectedStatus): Promise<TBody> {
+        return (await this.executeRequest<TBody>('PATCH', statusCode, this.patchRequest)).body
     }
 
     /**
@@ -291,28 +474,273 @@ export class RequestHandler {
      * 
      * Example: await api.path('/articles/123').deleteRequest(204)
      */
-    async deleteRequest(statusCode: number) {
+    async deleteRequest(statusCode: ExpectedStatus) {
+        await this.executeRequest('DELETE', statusCode, this.deleteRequest)
+    }
+
+    /**
+     * Executes a HEAD request, useful for existence checks without downloading a body.
+     * 
+     * @param statusCode - Expected HTTP status code (e.g., 200, 404)
+     * @throws Error if actual status code doesn't match expected
+     * 
+     * Example: await api.path('/articles/my-slug').headRequest(200)
+     */
+    async headRequest(statusCode: ExpectedStatus) {
+        await this.executeRequest('HEAD', statusCode, this.headRequest)
+    }
+
+    /**
+     * Executes an OPTIONS request, e.g. to verify CORS preflight handling.
+     * 
+     * @param statusCode - Expected HTTP status code (e.g., 204, 200)
+     * @throws Error if actual status code doesn't match expected
+     * 
+     * Example: await api.path('/articles').headers({ 'Origin': 'https://example.com' }).optionsRequest(204)
+     */
+    async optionsRequest(statusCode: ExpectedStatus) {
+        await this.executeRequest('OPTIONS', statusCode, this.optionsRequest)
+    }
+
+    /**
+     * Shared execution path for every HTTP verb.
+     * Wraps the call in a test step, cleans up the builder state, sends the request
+     * (retrying transient failures according to the retry policy), renews the credentials
+     * and replays the request once on an unexpected 401, and validates the status code.
+     * 
+     * @param method - HTTP method to send
+     * @param statusCode - Expected HTTP status code, list, class or predicate
+     * @param callingMethod - Public verb method, used to trim the error stack trace
+     * @param requireJsonBody - Fail when a successful response body is not JSON (getRequest returns the parsed body)
+     * @returns Promise<APIResponseDetails> - Full response details of the final attempt
+     * 
+     * Private method used internally by request methods.
+     */
+    private async executeRequest<TBody = any>(method: HttpMethod, statusCode: ExpectedStatus, callingMethod: Function, requireJsonBody: boolean = false): Promise<APIResponseDetails<TBody>> {
         const url = this.getUrl()
-        await test.step(`DELETE request to: ${url}`, async () => {
-            this.logger.logRequest('DELETE', url, this.getHeaders())
-            
-            /* Execute DELETE request (no body needed) */
-            const response = await this.request.delete(url, {
-                headers: this.getHeaders()
-            })
+        const retryPolicy = this.getRetryPolicy(method)
+        const timeoutMs = this.requestTimeout ?? this.options.timeout
+
+        /* Wrap in Playwright test step for better reporting and debugging */
+        return runStep(`${method} request to: ${url}`, async () => {
+            /* Snapshot the outgoing request so every attempt (and a replay after a refresh) sends the same data */
+            const headers = { ...this.apiHeaders }
+            const body = METHODS_WITH_REQUEST_BODY.includes(method) ? this.apiBody : undefined
+            const clearAuth = this.clearAuthFlag
+            const user = this.requestUser ?? this.options.user
+            const bodySchema = this.bodySchema
             
+            /* Clean up request state to prevent leakage between requests */
             this.cleanupFields()
-            const actualStatus = response.status()
+
+            /* Credentials of the named user if any, otherwise the default ones;
+               error messages and the step title keep using `url`, which never carries them */
+            const authSession = user && !clearAuth ? await this.getUserSession(user, callingMethod) : this.authSession
+            const credentials = clearAuth ? undefined : authSession.current
+            const authorized = applyCredentials(url, headers, credentials)
+            let sentRequest: APIResponseDetails['request'] = { method, url: authorized.url, headers: authorized.headers, body }
+
+            /* Catch malformed payloads before the API answers with a less helpful 422 */
+            if (bodySchema && sentRequest.body) {
+                await this.requestBodyValidator(method, url, sentRequest.body, bodySchema, callingMethod)
+            }
+
+            let details = await this.sendWithRetries<TBody>(sentRequest, url, statusCode, retryPolicy, timeoutMs, callingMethod)
+
+            /* Expired credentials: renew them once through the shared session and replay the request,
+               unless the test expects the 401 or sent its own credentials */
+            if (details.status === 401 && credentials && authorized.applied && !statusMatches(401, statusCode)) {
+                const renewed = await authSession.refresh(credentials)
+                const replay = JSON.stringify(renewed) !== JSON.stringify(credentials)
+                this.logger.logAuthRefresh(authSession.scheme, `status 401 from ${method} ${url}`, replay)
+                if (replay) {
+                    const reauthorized = applyCredentials(url, headers, renewed)
+                    sentRequest = { method, url: reauthorized.url, headers: reauthorized.headers, body }
+                    details = await this.sendWithRetries<TBody>(sentRequest, url, statusCode, retryPolicy, timeoutMs, callingMethod)
+                }
+            }
             
-            /* DELETE responses often have no body, so we only log status */
-            this.logger.logResponse(actualStatus)
-            this.statusCodeValidator(actualStatus, statusCode, this.deleteRequest)
+            /* Validate that status code matches expectation */
+            this.statusCodeValidator(details.status, statusCode, callingMethod)
+            if (requireJsonBody) this.jsonBodyValidator(method, url, details, callingMethod)
+            return details
         })
     }
 
+    /**
+     * Resolves the session of a named user.
+     * 
+     * @param user - User name from config.users
+     * @param callingMethod - Reference to the calling method for stack trace
+     * @returns Promise<AuthSession> - The user's worker-shared session
+     * @throws Error if the handler has no users option or the user is unknown
+     * 
+     * Private method used by executeRequest for .as() and withUser().
+     */
+    private async getUserSession(user: string, callingMethod: Function) {
+        try {
+            if (!this.options.users) {
+                throw new Error('this RequestHandler was created without the users option (the api fixture sets it)')
+            }
+            return await this.options.users.get(user)
+        } catch (sessionError) {
+            const error = new Error(`Cannot send the request as '${user}': ${sessionError.message}`)
+            
+            /* Capture proper stack trace pointing to the calling method */
+            Error.captureStackTrace(error, callingMethod)
+            throw error
+        }
+    }
+
+    /**
+     * Sends a request, retrying transient failures according to the retry policy.
+     * 
+     * @param sentRequest - Snapshot of method, URL, headers and body to send
+     * @param url - Request URL without credentials, used in error messages
+     * @param statusCode - Expected status; expected statuses are never retried
+     * @param retryPolicy - Resolved retry policy
+     * @param timeoutMs - Timeout per attempt in milliseconds
+     * @param callingMethod - Public verb method, used to trim the error stack trace
+     * @returns Promise<APIResponseDetails> - Response details of the final attempt
+     * 
+     * Private method used by executeRequest.
+     */
+    private async sendWithRetries<TBody = any>(sentRequest: APIResponseDetails['request'], url: string, statusCode: ExpectedStatus, retryPolicy: RetryPolicy, timeoutMs: number | undefined, callingMethod: Function): Promise<APIResponseDetails<TBody>> {
+        for (let attempt = 1; ; attempt++) {
+            const canRetry = attempt < retryPolicy.attempts
+            let details: APIResponseDetails<TBody>
+            try {
+                details = await this.attemptStep(attempt, retryPolicy.attempts, () => this.sendRequest(sentRequest, timeoutMs))
+            } catch (error) {
+                /* Timeouts are reported with request context instead of the bare Playwright message */
+                if (error?.name === 'TimeoutError') {
+                    this.timeoutErrorHandler(sentRequest.method, url, timeoutMs, callingMethod)
+                }
+
+                /* Network failures (e.g. ECONNRESET) are retried, everything else propagates */
+                if (!canRetry || !isRetryableNetworkError(error)) throw error
+                await this.waitBeforeRetry(retryPolicy, attempt, error.message)
+                continue
+            }
+
+            /* Retry transient statuses unless the test actually expects them */
+            if (canRetry && retryPolicy.on.includes(details.status) && !statusMatches(details.status, statusCode)) {
+                await this.waitBeforeRetry(retryPolicy, attempt, `status ${details.status}`)
+                continue
+            }
+            return details
+        }
+    }
+
+    /**
+     * Sends a single HTTP request and collects the response details.
+     * Both the request and the response are logged for every attempt.
+     * 
+     * @param sentRequest - Snapshot of method, URL, headers and body to send
+     * @param timeoutMs - Timeout for this attempt in milliseconds (Playwright default if undefined)
+     * @returns Promise<APIResponseDetails> - Response details for this attempt
+     * 
+     * Private method used by executeRequest.
+     */
+    private async sendRequest(sentRequest: APIResponseDetails['request'], timeoutMs?: number): Promise<APIResponseDetails> {
+        const { method, url, headers, body } = sentRequest
+        this.lastSentRequest = sentRequest
+
+        /* Log the outgoing request details */
+        this.logger.logRequest(method, url, headers, body)
+        
+        /* Execute the request and time the round trip */
+        const startTime = performance.now()
+        const response = await this.request.fetch(url, { method, headers, data: body, timeout: timeoutMs })
+        const rawText = await response.text()
+        const durationMs = Math.round(performance.now() - startTime)
+        const actualStatus = response.status()
+        
+        /* Some endpoints return empty bodies or non-JSON responses */
+        let responseJSON: any = METHODS_WITH_RESPONSE_BODY.includes(method) ? {} : undefined
+        if (rawText) {
+            try {
+                responseJSON = JSON.parse(rawText)
+            } catch (error) {
+                /* Keep the fallback value for non-JSON bodies */
+            }
+        }
+        
+        /* Log the response details (DELETE/HEAD/OPTIONS usually carry no body) */
+        this.logger.logResponse(actualStatus, responseJSON, {
+            statusText: response.statusText(),
+            headers: response.headers(),
+            durationMs
+        })
+
+        return {
+            status: actualStatus,
+            statusText: response.statusText(),
+            headers: response.headers(),
+            cookies: response.headersArray()
+                .filter(header => header.name.toLowerCase() === 'set-cookie')
+                .map(header => header.value),
+            body: responseJSON,
+            rawText,
+            durationMs,
+            request: sentRequest
+        }
+    }
+
+    /**
+     * Runs one attempt, as a nested test step when retries are possible
+     * so every attempt is visible in the report.
+     * 
+     * @param attempt - Current attempt number (1-based)
+     * @param attempts - Maximum number of attempts
+     * @param action - The attempt to run
+     * 
+     * Private method used by executeRequest.
+     */
+    private async attemptStep<T>(attempt: number, attempts: number, action: () => Promise<T>) {
+        if (attempts <= 1) return action()
+        return runStep(`Attempt ${attempt} of ${attempts}`, action)
+    }
+
+    /**
+     * Logs a retry through APILogger and waits for the backoff delay.
+     * 
+     * @param policy - Resolved retry policy
+     * @param attempt - The attempt that just failed (1-based)
+     * @param reason - Why the attempt is retried (status or error message)
+     * 
+     * Private method used by executeRequest.
+     */
+    private async waitBeforeRetry(policy: RetryPolicy, attempt: number, reason: string) {
+        const delayMs = typeof policy.backoff === 'function'
+            ? policy.backoff(attempt)
+            : policy.backoff * 2 ** (attempt - 1)
+        this.logger.logRetry(attempt + 1, policy.attempts, reason, delayMs)
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+
+    /**
+     * Resolves the retry policy for a request: per-call override, then instance
+     * default, then the built-in fallback. Non-idempotent verbs get a single
+     * attempt unless retryNonIdempotent is set.
+     * 
+     * @param method - HTTP method about to be sent
+     * @returns RetryPolicy - Fully populated policy
+     * 
+     * Private method used by executeRequest.
+     */
+    private getRetryPolicy(method: HttpMethod): RetryPolicy {
+        const policy = { ...DEFAULT_RETRY_POLICY, ...this.options.retry, ...this.retryPolicy }
+        if (!IDEMPOTENT_METHODS.includes(method) && !policy.retryNonIdempotent) {
+            return { ...policy, attempts: 1 }
+        }
+        return policy
+    }
+
     /**
      * Constructs the full URL from base URL, path, and query parameters.
      * Handles URL encoding and parameter serialization automatically.
+     * Query credentials are added later by applyCredentials, so the URL is safe for step titles.
      * 
      * @returns string - The complete URL for the request
      * 
@@ -335,17 +763,17 @@ export class RequestHandler {
      * Throws a detailed error with recent API activity if validation fails.
      * 
      * @param actualStatus - The actual HTTP status code received
-     * @param expectStatus - The expected HTTP status code
+     * @param expectStatus - The expected status: exact code, list of codes, class ('2xx') or predicate
      * @param callingMethod - Reference to the calling method for stack trace
      * @throws Error with detailed context if status codes don't match
      * 
      * Private method providing centralized status validation.
      */
-    private statusCodeValidator(actualStatus: number, expectStatus: number, callingMethod: Function) {
-        if (actualStatus !== expectStatus) {
+    private statusCodeValidator(actualStatus: number, expectStatus: ExpectedStatus, callingMethod: Function) {
+        if (!statusMatches(actualStatus, expectStatus)) {
             /* Get recent API activity for debugging context */
             const logs = this.logger.getRecentLogs()
-            const error = new Error(`Expected status ${expectStatus} but got ${actualStatus}\n\nRecent API Activity: \n${logs}`)
+            const error = new Error(`Expected status ${describeStatus(expectStatus)} but got ${actualStatus}${this.reproduceWithCurl()}\n\nRecent API Activity: \n${logs}`)
             
             /* Capture proper stack trace pointing to the calling method */
             Error.captureStackTrace(error, callingMethod)
@@ -354,25 +782,90 @@ export class RequestHandler {
     }
 
     /**
-     * Manages authentication headers for requests.
+     * Fails a successful response whose body is not JSON (e.g. an HTML page served
+     * instead of the API), since the caller would otherwise get an empty object.
+     * Error pages with an expected 4xx/5xx status pass; their text stays in rawText.
      * 
-     * Automatic Authentication Logic:
-     * - If clearAuthFlag is false: Adds Authorization header
-     * - Uses custom Authorization header if provided
-     * - Falls back to defaultAuthToken if no custom auth header
-     * - If clearAuthFlag is true: Skips authentication entirely
+     * @param method - HTTP method of the request
+     * @param url - URL of the request, without credentials
+     * @param details - Response details of the final attempt
+     * @param callingMethod - Reference to the calling method for stack trace
+     * @throws Error naming the request and including the raw response text
      * 
-     * @returns Record<string, string> - Headers object with authentication
+     * Private method used by executeRequest for verbs returning the parsed body.
+     */
+    private jsonBodyValidator(method: HttpMethod, url: string, details: APIResponseDetails, callingMethod: Function) {
+        if (!details.rawText || details.status < 200 || details.status >= 300) return
+        try {
+            JSON.parse(details.rawText)
+        } catch (parseError) {
+            const error = new Error(`${method} request to ${url} returned a non-JSON body (status ${details.status}):\n${details.rawText}`)
+            
+            /* Capture proper stack trace pointing to the calling method */
+            Error.captureStackTrace(error, callingMethod)
+            throw error
+        }
+    }
+
+    /**
+     * Validates the request body against its request schema.
      * 
-     * Private method handling authentication logic.
-     * Call .clearAuth() to skip authentication for public endpoints.
+     * @param method - HTTP method of the request about to be sent
+     * @param url - URL of the request about to be sent
+     * @param body - Request body to validate
+     * @param bodySchema - Location of the schema under request-schemas
+     * @param callingMethod - Reference to the calling method for stack trace
+     * @throws Error naming the request and listing the schema mismatches
+     * 
+     * Private method used by executeRequest when .validateBody() was called.
      */
-    private getHeaders() {
-        if (!this.clearAuthFlag) {
-            /* Add Authorization header if not explicitly cleared */
-            this.apiHeaders['Authorization'] = this.apiHeaders['Authorization'] || this.defaultAuthToken
+    private async requestBodyValidator(method: HttpMethod, url: string, body: object, bodySchema: { dirName: string, fileName: string }, callingMethod: Function) {
+        try {
+            await validateRequestBody(bodySchema.dirName, bodySchema.fileName, body)
+        } catch (validationError) {
+            const error = new Error(`${method} request to ${url} was not sent. ${validationError.message}`)
+            
+            /* Capture proper stack trace pointing to the calling method */
+            Error.captureStackTrace(error, callingMethod)
+            throw error
         }
-        return this.apiHeaders
+    }
+
+    /**
+     * Throws a descriptive error when a request exceeds its timeout.
+     * Mirrors statusCodeValidator by including recent API activity for context.
+     * 
+     * @param method - HTTP method of the timed out request
+     * @param url - URL of the timed out request, without credentials
+     * @param timeoutMs - The timeout that was exceeded
+     * @param callingMethod - Reference to the calling method for stack trace
+     * @throws Error naming the request and including recent API activity
+     * 
+     * Private method providing centralized timeout reporting.
+     */
+    private timeoutErrorHandler(method: HttpMethod, url: string, timeoutMs: number | undefined, callingMethod: Function): never {
+        /* Get recent API activity for debugging context */
+        const logs = this.logger.getRecentLogs()
+        const error = new Error(`${method} request to ${url} timed out after ${timeoutMs}ms${this.reproduceWithCurl()}\n\nRecent API Activity: \n${logs}`)
+        
+        /* Capture proper stack trace pointing to the calling method */
+        Error.captureStackTrace(error, callingMethod)
+        throw error
+    }
+
+    /**
+     * Builds the "Reproduce with" section of failure messages for the last sent request.
+     * Uses the redacted command from APILogger unless curlWithSecrets is enabled.
+     * 
+     * @returns string - Section to append to an error message, or '' if nothing was sent
+     * 
+     * Private method used by statusCodeValidator and timeoutErrorHandler.
+     */
+    private reproduceWithCurl() {
+        const command = this.options.curlWithSecrets && this.lastSentRequest
+            ? buildCurlCommand(this.lastSentRequest)
+            : this.logger.getLastCurlCommand()
+        return command ? `\n\nReproduce with:\n${command}` : ''
     }
 
     /**
@@ -386,6 +879,10 @@ export class RequestHandler {
      * - API path
      * - Query parameters
      * - Clear auth flag
+     * - Retry policy override
+     * - Timeout override
+     * - Request body schema
+     * - Named user
      * 
      * Private method called automatically after each request.
      * Critical for preventing unintended parameter inheritance between requests.
@@ -397,6 +894,92 @@ export class RequestHandler {
         this.apiPath = ''
         this.queryParams = {}
         this.clearAuthFlag = false
+        this.retryPolicy = undefined
+        this.requestTimeout = undefined
+        this.bodySchema = undefined
+        this.requestUser = undefined
     }
 
-}
\ No newline at end of file
+}
+
+/**
+ * Runs a body as a Playwright test step, or directly when no test is running
+ * (e.g. logins from global setup, which warms the token cache).
+ * 
+ * @param title - Step title shown in the report
+ * @param body - Step body
+ */
+async function runStep<T>(title: string, body: () => Promise<T>) {
+    try {
+        test.info()
+    } catch (error) {
+        return body()
+    }
+    return test.step(title, body)
+}
+
+/**
+ * Adds credentials to a request's URL and headers.
+ * 
+ * Automatic Authentication Logic:
+ * - Adds the credential headers (e.g. Authorization, X-API-Key) and query parameters (e.g. api_key)
+ * - Uses a custom header or parameter of the same name if the request sets one
+ * - Skips authentication entirely when credentials is undefined (clearAuth() was called)
+ * 
+ * @param url - Request URL without credentials
+ * @param headers - Headers set on the request
+ * @param credentials - Credentials to add, if any
+ * @returns URL and headers to send, and whether any credential was actually added
+ */
+function applyCredentials(url: string, headers: Record<string, string>, credentials: AuthCredentials | undefined) {
+    const authorizedUrl = new URL(url)
+    const authorizedHeaders = { ...headers }
+    let applied = false
+    for (const [name, value] of Object.entries(credentials?.headers ?? {})) {
+        if (authorizedHeaders[name]) continue
+        authorizedHeaders[name] = value
+        applied = true
+    }
+    for (const [name, value] of Object.entries(credentials?.query ?? {})) {
+        if (authorizedUrl.searchParams.has(name)) continue
+        authorizedUrl.searchParams.append(name, value)
+        applied = true
+    }
+    return { url: applied ? authorizedUrl.toString() : url, headers: authorizedHeaders, applied }
+}
+
+/**
+ * Detects low-level network failures that are worth retrying.
+ * 
+ * @param error - Error thrown by APIRequestContext
+ * @returns true if the error message names a transient network failure
+ */
+function isRetryableNetworkError(error: any) {
+    return RETRYABLE_NETWORK_ERRORS.some(code => String(error?.message).includes(code))
+}
+
+/**
+ * Checks an actual status code against any supported expectation form.
+ * 
+ * @param actualStatus - The actual HTTP status code received
+ * @param expectStatus - Exact code, list of codes, class ('2xx') or predicate
+ * @returns true if the status satisfies the expectation
+ */
+function statusMatches(actualStatus: number, expectStatus: ExpectedStatus) {
+    if (typeof expectStatus === 'function') return expectStatus(actualStatus)
+    if (Array.isArray(expectStatus)) return expectStatus.includes(actualStatus)
+    if (typeof expectStatus === 'string') return Math.floor(actualStatus / 100) === Number(expectStatus[0])
+    return actualStatus === expectStatus
+}
+
+/**
+ * Renders an expectation for error messages, e.g. '201', 'one of [200, 201]', '4xx'.
+ * 
+ * @param expectStatus - The expectation to describe
+ * @returns string - Human readable description
+ */
+function describeStatus(expectStatus: ExpectedStatus) {
+    if (typeof expectStatus === 'function') return `matching ${expectStatus.name || 'predicate'}`
+    if (Array.isArray(expectStatus)) return `one of [${expectStatus.join(', ')}]`
+    return String(expectStatus)
+}
@@ -0,0 +1,131 @@
+/**
+ * Schema Diff Module
+ *
+ * This module compares two JSON schemas (typically the stored *_schema.json and a
+ * freshly inferred one) and reports how the API response shape drifted.
+ *
+ * Change Classification:
+ * - breaking: property removed, type changed, property no longer required, format removed/changed
+ * - additive: property added, property became required, format added
+ *
+ * Usage:
+ * const changes = diffSchemas(storedSchema, inferredSchema)
+ * console.log(formatSchemaDiff('GET_articles_schema.json', changes))
+ */
+
+/* Kind of difference detected between two schema nodes */
+export type SchemaChangeKind =
+    | 'property-added'
+    | 'property-removed'
+    | 'type-changed'
+    | 'required-added'
+    | 'required-removed'
+    | 'format-added'
+    | 'format-removed'
+    | 'format-changed'
+
+/* A single difference between the stored and the new schema */
+export type SchemaChange = {
+    /* Location of the change, e.g. 'articles[].author.bio' */
+    path: string
+    kind: SchemaChangeKind
+    breaking: boolean
+    before?: any
+    after?: any
+}
+
+/* Change kinds that can break existing consumers of the response */
+const BREAKING_KINDS: SchemaChangeKind[] = ['property-removed', 'type-changed', 'required-removed', 'format-removed', 'format-changed']
+
+/**
+ * Recursively compares two JSON schemas.
+ *
+ * @param before - The stored schema
+ * @param after - The newly inferred schema
+ * @returns SchemaChange[] - Every detected difference, breaking ones first
+ */
+export function diffSchemas(before: any, after: any): SchemaChange[] {
+    const changes: SchemaChange[] = []
+    compareNodes(before ?? {}, after ?? {}, '', changes)
+    return changes.sort((first, second) => Number(second.breaking) - Number(first.breaking))
+}
+
+/**
+ * Renders a diff as a human readable report for the console.
+ *
+ * @param schemaName - Name shown in the header (e.g. 'GET_articles_schema.json')
+ * @param changes - Changes returned by diffSchemas()
+ * @returns string - Multi-line report
+ */
+export function formatSchemaDiff(schemaName: string, changes: SchemaChange[]) {
+    if (changes.length === 0) return `Schema ${schemaName}: no changes`
+
+    const breakingCount = changes.filter(change => change.breaking).length
+    const lines = changes.map(change => {
+        const label = change.breaking ? 'BREAKING' : 'additive'
+        const detail = change.before !== undefined || change.after !== undefined
+            ? `: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`
+            : ''
+        return `  [${label}] ${change.kind} ${change.path || '(root)'}${detail}`
+    })
+    return `Schema ${schemaName}: ${breakingCount} breaking, ${changes.length - breakingCount} additive change(s)\n${lines.join('\n')}`
+}
+
+function compareNodes(before: any, after: any, path: string, changes: SchemaChange[]) {
+    const beforeTypes = typesOf(before)
+    const afterTypes = typesOf(after)
+    if (beforeTypes.join('|') !== afterTypes.join('|')) {
+        addChange(changes, path, 'type-changed', typeValue(beforeTypes), typeValue(afterTypes))
+    }
+
+    if (before.format !== after.format) {
+        const kind = before.format === undefined ? 'format-added' : after.format === undefined ? 'format-removed' : 'format-changed'
+        addChange(changes, path, kind, before.format, after.format)
+    }
+
+    /* Object properties */
+    const beforeProperties = before.properties ?? {}
+    const afterProperties = after.properties ?? {}
+    for (const key of Object.keys(beforeProperties)) {
+        if (!(key in afterProperties)) addChange(changes, join(path, key), 'property-removed')
+    }
+    for (const key of Object.keys(afterProperties)) {
+        if (!(key in beforeProperties)) {
+            addChange(changes, join(path, key), 'property-added')
+        } else {
+            compareNodes(beforeProperties[key], afterProperties[key], join(path, key), changes)
+        }
+    }
+
+    /* Required lists, only for properties present on both sides */
+    const beforeRequired: string[] = before.required ?? []
+    const afterRequired: string[] = after.required ?? []
+    for (const key of afterRequired) {
+        if (!beforeRequired.includes(key) && key in beforeProperties) addChange(changes, join(path, key), 'required-added')
+    }
+    for (const key of beforeRequired) {
+        if (!afterRequired.includes(key) && key in afterProperties) addChange(changes, join(path, key), 'required-removed')
+    }
+
+    /* Array items */
+    if (before.items && after.items) {
+        compareNodes(before.items, after.items, `${path}[]`, changes)
+    }
+}
+
+function addChange(changes: SchemaChange[], path: string, kind: SchemaChangeKind, before?: any, after?: any) {
+    changes.push({ path, kind, breaking: BREAKING_KINDS.includes(kind), before, after })
+}
+
+function typesOf(node: any): string[] {
+    if (node.type === undefined) return []
+    return (Array.isArray(node.type) ? [...node.type] : [node.type]).sort()
+}
+
+function typeValue(types: string[]) {
+    return types.length === 1 ? types[0] : types
+}
+
+function join(path: string, key: string) {
+    return path ? `${path}.${key}` : key
+}
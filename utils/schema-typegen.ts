@@ -0,0 +1,217 @@
+/**
+ * Schema Type Generator Module
+ *
+ * This module generates TypeScript declarations from the JSON schemas in
+ * response-schemas/, so response types can never drift from the schemas that
+ * validate them at runtime.
+ *
+ * Features:
+ * - One exported type per *_schema.json (GET_articles -> GetArticles, shared/author -> Author)
+ * - Relative file $refs become references to the generated type of the target file
+ * - ResponseSchemaTypes registry keyed by '{dirName}/{fileName}' (used by SchemaResponse<>)
+ * - Check mode that reports stale committed declarations
+ *
+ * Usage:
+ * await writeSchemaTypes()                   // regenerate response-schemas/types.d.ts
+ * const result = await checkSchemaTypes()    // { upToDate: false, ... } when the file is stale
+ *
+ * CLI: npm run generate:types / npm run check:types (scripts/generate-schema-types.ts)
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+/* Directory scanned for *_schema.json files */
+export const SCHEMA_TYPES_SOURCE = './response-schemas'
+
+/* Generated declaration file, committed next to the schemas */
+export const SCHEMA_TYPES_OUTPUT = './response-schemas/types.d.ts'
+
+/* Result of comparing the committed declarations with freshly generated ones */
+export type SchemaTypesCheck = {
+    upToDate: boolean
+    outputPath: string
+    expected: string
+    actual: string | undefined
+}
+
+/* A schema file and the type generated for it */
+type SchemaFileEntry = {
+    /* Registry key, e.g. 'articles/GET_articles' */
+    key: string
+    /* Absolute path of the schema file, used to resolve $refs */
+    filePath: string
+    typeName: string
+    schema: any
+}
+
+const SCHEMA_FILE_SUFFIX = '_schema.json'
+
+const GENERATED_HEADER = `/**
+ * Response Schema Types
+ *
+ * GENERATED from response-schemas/*_schema.json - do not edit by hand.
+ * Regenerate with: npm run generate:types
+ */
+`
+
+/**
+ * Generates the declaration file content for every schema under a directory.
+ *
+ * @param schemaDir - Directory to scan recursively (default: response-schemas)
+ * @returns Promise<string> - TypeScript declarations
+ * @throws Error - If a schema file cannot be parsed or a $ref target does not exist
+ */
+export async function generateSchemaTypes(schemaDir: string = SCHEMA_TYPES_SOURCE) {
+    const entries = await collectSchemaFiles(schemaDir)
+    const typeNamesByPath = new Map(entries.map(entry => [entry.filePath, entry.typeName]))
+
+    const declarations = entries.map(entry => {
+        const type = schemaToType(entry.schema, entry.filePath, typeNamesByPath, 0)
+        const isObject = type.startsWith('{')
+        return isObject
+            ? `export interface ${entry.typeName} ${type}`
+            : `export type ${entry.typeName} = ${type}`
+    })
+
+    const registry = entries.map(entry => `    '${entry.key}': ${entry.typeName}`)
+    return `${GENERATED_HEADER}\n${declarations.join('\n\n')}\n\n` +
+        `/* Body type of each schema file, keyed by '{dirName}/{fileName}' as passed to shouldMatchSchema */\n` +
+        `export interface ResponseSchemaTypes {\n${registry.join('\n')}\n}\n`
+}
+
+/**
+ * Regenerates the committed declaration file.
+ *
+ * @param outputPath - Destination .d.ts file (default: response-schemas/types.d.ts)
+ * @param schemaDir - Directory to scan (default: response-schemas)
+ * @returns Promise<string> - The written content
+ */
+export async function writeSchemaTypes(outputPath: string = SCHEMA_TYPES_OUTPUT, schemaDir: string = SCHEMA_TYPES_SOURCE) {
+    const content = await generateSchemaTypes(schemaDir)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, content)
+    return content
+}
+
+/**
+ * Compares the committed declaration file with freshly generated declarations.
+ *
+ * @param outputPath - Committed .d.ts file (default: response-schemas/types.d.ts)
+ * @param schemaDir - Directory to scan (default: response-schemas)
+ * @returns Promise<SchemaTypesCheck> - upToDate is false when the file is missing or differs
+ */
+export async function checkSchemaTypes(outputPath: string = SCHEMA_TYPES_OUTPUT, schemaDir: string = SCHEMA_TYPES_SOURCE): Promise<SchemaTypesCheck> {
+    const expected = await generateSchemaTypes(schemaDir)
+    const actual = await fs.readFile(outputPath, 'utf-8').catch(() => undefined)
+    return { upToDate: actual === expected, outputPath, expected, actual }
+}
+
+/**
+ * Finds every *_schema.json file, sorted by registry key for a stable output.
+ */
+async function collectSchemaFiles(schemaDir: string): Promise<SchemaFileEntry[]> {
+    const files = (await fs.readdir(schemaDir, { recursive: true }))
+        .map(file => file.split(path.sep).join('/'))
+        .filter(file => file.endsWith(SCHEMA_FILE_SUFFIX))
+        .sort()
+
+    const entries: SchemaFileEntry[] = []
+    for (const file of files) {
+        const filePath = path.resolve(schemaDir, file)
+        let schema: any
+        try {
+            schema = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+        } catch (error) {
+            throw new Error(`Failed to read the schema file ${file}: ${error.message}`)
+        }
+        const key = file.slice(0, -SCHEMA_FILE_SUFFIX.length)
+        entries.push({ key, filePath, typeName: toPascalCase(path.posix.basename(key)), schema })
+    }
+
+    /* Same file name in two directories: prefix with the directory name */
+    for (const entry of entries) {
+        if (entries.filter(other => other.typeName === entry.typeName).length > 1) {
+            entry.typeName = toPascalCase(entry.key.replace(/\//g, '_'))
+        }
+    }
+    return entries
+}
+
+/**
+ * Converts a schema node to a TypeScript type expression.
+ *
+ * @param schema - Schema node
+ * @param filePath - File the node belongs to (base for relative $refs)
+ * @param typeNamesByPath - Generated type name per schema file
+ * @param depth - Nesting level, used for indentation
+ */
+function schemaToType(schema: any, filePath: string, typeNamesByPath: Map<string, string>, depth: number): string {
+    if (schema === true || schema === undefined || schema === null) return 'unknown'
+    if (schema === false) return 'never'
+    const toType = (node: any) => schemaToType(node, filePath, typeNamesByPath, depth)
+
+    if (typeof schema.$ref === 'string') {
+        if (schema.$ref.startsWith('#')) return 'unknown'
+        const refPath = path.resolve(path.dirname(filePath), schema.$ref)
+        const typeName = typeNamesByPath.get(refPath)
+        if (!typeName) throw new Error(`Cannot resolve $ref ${schema.$ref} in ${filePath}`)
+        return typeName
+    }
+    if (schema.enum) return schema.enum.map((value: any) => JSON.stringify(value)).join(' | ')
+    if (schema.const !== undefined) return JSON.stringify(schema.const)
+    if (schema.anyOf || schema.oneOf) return (schema.anyOf ?? schema.oneOf).map(toType).join(' | ')
+    if (schema.allOf) return schema.allOf.map(toType).join(' & ')
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+    if (types.length === 0) return schema.properties ? objectToType(schema, filePath, typeNamesByPath, depth) : 'unknown'
+
+    return types.map(type => {
+        switch (type) {
+            case 'string': return 'string'
+            case 'integer':
+            case 'number': return 'number'
+            case 'boolean': return 'boolean'
+            case 'null': return 'null'
+            case 'array': return schema.items ? `${wrapUnion(toType(schema.items))}[]` : 'unknown[]'
+            case 'object': return objectToType(schema, filePath, typeNamesByPath, depth)
+            default: return 'unknown'
+        }
+    }).join(' | ')
+}
+
+function objectToType(schema: any, filePath: string, typeNamesByPath: Map<string, string>, depth: number) {
+    const properties = Object.entries<any>(schema.properties ?? {})
+    if (properties.length === 0) {
+        const valueType = typeof schema.additionalProperties === 'object'
+            ? schemaToType(schema.additionalProperties, filePath, typeNamesByPath, depth)
+            : 'unknown'
+        return `Record<string, ${valueType}>`
+    }
+
+    const required: string[] = schema.required ?? []
+    const indent = '    '.repeat(depth + 1)
+    const lines = properties.map(([name, property]) => {
+        const optional = required.includes(name) ? '' : '?'
+        return `${indent}${propertyName(name)}${optional}: ${schemaToType(property, filePath, typeNamesByPath, depth + 1)}`
+    })
+    return `{\n${lines.join('\n')}\n${'    '.repeat(depth)}}`
+}
+
+/* Parenthesise unions used as array element types: (string | null)[] */
+function wrapUnion(type: string) {
+    return type.includes(' | ') || type.includes(' & ') ? `(${type})` : type
+}
+
+function propertyName(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`
+}
+
+/* 'GET_articles' -> 'GetArticles', 'author' -> 'Author' */
+function toPascalCase(name: string) {
+    return name
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1).toLowerCase())
+        .join('')
+}
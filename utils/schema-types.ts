@@ -0,0 +1,28 @@
+/**
+ * Response Schema Types
+ *
+ * Maps every schema file in response-schemas/ to the TypeScript type of the body it
+ * validates, so the type parameter of a request and the schema checked by
+ * shouldMatchSchema name the same thing:
+ *
+ * const articles = await api.path('/articles').getRequest<SchemaResponse<'articles', 'GET_articles'>>(200)
+ * await expect(articles).shouldMatchSchema('articles', 'GET_articles')
+ *
+ * Keys are '{dirName}/{fileName}' exactly as passed to shouldMatchSchema.
+ * The registry is generated from the schema files into response-schemas/types.d.ts;
+ * after adding or regenerating a schema, run: npm run generate:types
+ */
+
+import type { ResponseSchemaTypes } from '../response-schemas/types'
+
+export type { ResponseSchemaTypes }
+
+/* Schema names known to the registry, e.g. 'articles/GET_articles' */
+export type ResponseSchemaName = keyof ResponseSchemaTypes
+
+/**
+ * Body type validated by response-schemas/{DirName}/{FileName}_schema.json.
+ * Resolves to unknown for schema files missing from ResponseSchemaTypes.
+ */
+export type SchemaResponse<DirName extends string, FileName extends string> =
+    `${DirName}/${FileName}` extends ResponseSchemaName ? ResponseSchemaTypes[`${DirName}/${FileName}`] : unknown
@@ -5,27 +5,53 @@
  * Features include:
  * - Automatic schema generation from API responses
  * - Schema validation with detailed error reporting
- * - Smart format detection (dates, emails, URLs, UUIDs)
+ * - Smart format detection (dates, emails, URLs, UUIDs) applied to generated schemas
  * - File-based schema storage and management
+ * - Drift reports when regenerating existing schemas (breaking vs additive changes)
+ * - Learning runs that merge many observed responses into one schema (LEARN_SCHEMAS=true)
+ * - Compiled validators cached per schema file, with $ref support between schema files
+ * - Request body validation against hand-written schemas in request-schemas/
+ * - Response validation against a local OpenAPI 3 spec (config.openApiSpec)
  * 
  * Usage:
  * - validateSchema('articles', 'GET_articles', responseBody) - validate against existing schema
- * - validateSchema('articles', 'GET_articles', responseBody, true) - generate new schema if missing
+ * - validateSchema('articles', 'GET_articles', responseBody, true) - generate schema if missing,
+ *   otherwise report drift and overwrite only when UPDATE_SCHEMAS=true
+ * - validateRequestBody('articles', 'POST_articles', requestBody) - check a payload before it is sent
+ * - validateOpenApiResponse({ method, url, statusCode }, responseBody) - validate against the spec operation
+ * 
+ * Shared Shapes:
+ * Schema files can reference each other with a relative $ref, resolved from the referencing file:
+ * { "author": { "$ref": "../shared/author_schema.json" } }
  */
 
 import fs from 'fs/promises'
 import path from 'path'
-import Ajv from "ajv"
-import { createSchema } from 'genson-js';
+import { fileURLToPath, pathToFileURL } from 'url'
+import Ajv, { ValidateFunction } from "ajv"
+import { createSchema, createCompoundSchema } from 'genson-js';
 import addFormats from "ajv-formats"
+import { config } from '../api-test.config'
+import { diffSchemas, formatSchemaDiff, SchemaChange } from './schema-diff'
+import { findOperation, findResponseSchema, loadOpenApiSpec, toJsonSchema } from './openapi-spec'
+import { RecordedExchange } from './logger'
 
 /* Base directory for storing JSON schema files */
 const SCHEMA_BASE_PATH = './response-schemas'
 
-/* Initialize AJV validator with all errors reporting and format support */
-const ajv = new Ajv({ allErrors: true })
+/* Base directory for request body schemas (written by hand, never generated) */
+const REQUEST_SCHEMA_BASE_PATH = './request-schemas'
+
+/* Directory where a learning run accumulates response samples, one JSONL file per schema */
+const SCHEMA_SAMPLES_PATH = './.schema-samples'
+
+/* Initialize AJV validator with all errors reporting, format support and on-demand loading of $ref files */
+const ajv = new Ajv({ allErrors: true, loadSchema: loadReferencedSchema })
 addFormats(ajv) /* Add format validators (email, date-time, uri, etc.) */
 
+/* Compiled validators keyed by schema path (or spec operation); each schema is compiled once per worker */
+const validatorCache = new Map<string, Promise<ValidateFunction>>()
+
 /**
  * Validates an API response against a JSON schema file.
  * Optionally generates a new schema if one doesn't exist or if explicitly requested.
@@ -33,12 +59,17 @@ addFormats(ajv) /* Add format validators (email, date-time, uri, etc.) */
  * @param dirName - Directory name under response-schemas (e.g., 'articles', 'tags')
  * @param fileName - Schema file name without extension (e.g., 'GET_articles', 'POST_users')
  * @param responseBody - The API response object to validate
- * @param createSchemaFlag - If true, generates a new schema from the response body
+ * @param createSchemaFlag - If true, infers a schema from the response body: missing files are created,
+ *                           existing files are diffed and only overwritten when UPDATE_SCHEMAS=true
  * 
  * @throws Error - Throws detailed validation error with schema mismatches and actual response
  * 
  * Schema File Path: ./response-schemas/{dirName}/{fileName}_schema.json
  * 
+ * Learning Runs (config.learnSchemas / LEARN_SCHEMAS=true):
+ * The response body is recorded as a sample and validation is skipped; global teardown
+ * merges all samples per schema and applies them via applyLearnedSchemas().
+ * 
  * Example Usage:
  * - await validateSchema('articles', 'GET_articles', response, false) // validate only
  * - await validateSchema('articles', 'POST_articles', response, true) // generate then validate
@@ -47,14 +78,17 @@ export async function validateSchema(dirName: string, fileName: string, response
     /* Construct the full path to the schema file */
     const schemaPath = path.join(SCHEMA_BASE_PATH, dirName, `${fileName}_schema.json`)
 
-    /* Generate new schema if requested (useful for first-time setup or schema updates) */
-    if(createSchemaFlag) await generateNewSchema(responseBody, schemaPath)
+    /* Learning run: collect the sample, schemas are written once all samples are in */
+    if (config.learnSchemas) {
+        await recordSchemaSample(dirName, fileName, responseBody)
+        return
+    }
 
-    /* Load the schema from file system */
-    const schema = await loadSchema(schemaPath)
-    
-    /* Compile the schema for validation (AJV optimization) */
-    const validate = ajv.compile(schema)
+    /* Generate or regenerate schema if requested (useful for first-time setup or schema updates) */
+    if(createSchemaFlag) await regenerateSchema(inferSchema(responseBody), schemaPath)
+
+    /* Load and compile the schema, or reuse the cached validator */
+    const validate = await getValidator(schemaPath, () => compileSchemaFile(schemaPath))
 
     /* Perform validation against the response body */
     const valid = validate(responseBody)
@@ -69,6 +103,188 @@ export async function validateSchema(dirName: string, fileName: string, response
     }
 }
 
+/**
+ * Validates an API response against the OpenAPI operation that served it.
+ * The operation is resolved from the request method and URL, the response schema
+ * from the status code. Without a configured spec, falls back to the response-schemas/
+ * file named after the endpoint: {resource}/{METHOD}_{resource}_schema.json
+ * 
+ * @param exchange - Method, URL and status of the request (e.g. APILogger.getLastExchange())
+ * @param responseBody - The API response object to validate
+ * @param specPath - OpenAPI JSON file, defaults to config.openApiSpec
+ * 
+ * @throws Error - If no operation/response is documented, or the body does not match
+ * 
+ * Example Usage:
+ * - await validateOpenApiResponse({ method: 'GET', url: 'https://host/api/tags', statusCode: 200 }, response)
+ */
+export async function validateOpenApiResponse(exchange: RecordedExchange, responseBody: object, specPath: string = config.openApiSpec) {
+    const { method, url, statusCode } = exchange
+
+    /* No spec configured: use the hand-written schema for this endpoint */
+    if (!specPath) {
+        const resource = resourceOf(url)
+        return validateSchema(resource, `${method}_${resource}`, responseBody)
+    }
+
+    const spec = await loadOpenApiSpec(specPath)
+    const operation = findOperation(spec, method, url)
+    if (!operation) {
+        throw new Error(`No operation for ${method} ${new URL(url).pathname} in OpenAPI spec ${specPath}`)
+    }
+    const response = findResponseSchema(operation, statusCode)
+    if (!response) {
+        throw new Error(`Status ${statusCode} is not documented for ${method} ${operation.pathTemplate} in OpenAPI spec ${specPath}`)
+    }
+
+    /* Responses without JSON content (e.g. 204) have nothing to validate */
+    if (!response.schema) return
+
+    const operationName = `${method} ${operation.pathTemplate} ${response.statusKey}`
+    const validate = await getValidator(`${specPath}#${operationName}`, async () => ajv.compile(toJsonSchema(spec, response.schema)))
+    if (!validate(responseBody)) {
+        throw new Error(
+            `OpenAPI validation ${operationName} failed:\n`+
+            `${JSON.stringify(validate.errors, null, 4)}\n\n`+
+            `Actual response body: \n`+
+            `${JSON.stringify(responseBody, null, 4)}`
+        )
+    }
+}
+
+/**
+ * Validates a request body against a schema file before the request is sent.
+ * Uses the same AJV instance and validator cache as response validation,
+ * so request schemas can also $ref shared schema files.
+ * 
+ * @param dirName - Directory name under request-schemas (e.g., 'articles')
+ * @param fileName - Schema file name without extension (e.g., 'POST_articles')
+ * @param requestBody - The payload about to be sent
+ * 
+ * @throws Error - Lists every mismatch with its location in the body, plus the body itself
+ * 
+ * Schema File Path: ./request-schemas/{dirName}/{fileName}_schema.json
+ * 
+ * Example Usage:
+ * - await validateRequestBody('articles', 'POST_articles', { article: { title: 'Test', ... } })
+ */
+export async function validateRequestBody(dirName: string, fileName: string, requestBody: object) {
+    const schemaPath = path.join(REQUEST_SCHEMA_BASE_PATH, dirName, `${fileName}_schema.json`)
+    const validate = await getValidator(schemaPath, () => compileSchemaFile(schemaPath))
+
+    if (!validate(requestBody)) {
+        const mismatches = validate.errors.map(error => {
+            const location = error.instancePath || '(root)'
+            const property = error.params.additionalProperty ? ` '${error.params.additionalProperty}'` : ''
+            return `  ${location} ${error.message}${property}`
+        })
+        throw new Error(
+            `Request body does not match ${fileName}_schema.json:\n`+
+            `${mismatches.join('\n')}\n\n`+
+            `Request body: \n`+
+            `${JSON.stringify(requestBody, null, 4)}`
+        )
+    }
+}
+
+/**
+ * Returns a cached compiled validator, compiling it on first use.
+ * The in-flight promise is cached so concurrent assertions never compile the same schema twice.
+ * 
+ * @param cacheKey - Schema file path, or spec path plus operation for OpenAPI schemas
+ * @param compile - Compiles the validator when it is not cached yet
+ * @returns Promise<ValidateFunction> - The compiled AJV validator
+ */
+async function getValidator(cacheKey: string, compile: () => Promise<ValidateFunction>) {
+    let validator = validatorCache.get(cacheKey)
+    if (!validator) {
+        validator = compile()
+        validatorCache.set(cacheKey, validator)
+        /* Do not cache failures, the file may be fixed or created later */
+        validator.catch(() => validatorCache.delete(cacheKey))
+    }
+    return validator
+}
+
+/**
+ * Compiles a schema file. Schemas without an $id get their file URL as $id,
+ * so relative $refs resolve against the referencing file's directory.
+ * Referenced files are loaded on demand through loadReferencedSchema().
+ */
+async function compileSchemaFile(schemaPath: string) {
+    const schemaId = pathToFileURL(path.resolve(schemaPath)).href
+
+    /* The file may already be registered as the target of another schema's $ref */
+    const registered = ajv.getSchema(schemaId)
+    if (registered) return registered
+
+    const schema = await loadSchema(schemaPath)
+    return ajv.compileAsync({ $id: schemaId, ...schema })
+}
+
+/**
+ * AJV loadSchema hook: reads a schema file referenced via $ref.
+ * 
+ * @param uri - Absolute URI of the referenced schema (file URL of a schema file)
+ * @returns Promise<object> - The parsed referenced schema
+ */
+async function loadReferencedSchema(uri: string) {
+    if (!uri.startsWith('file:')) {
+        throw new Error(`Cannot resolve $ref ${uri}: only relative references to schema files are supported`)
+    }
+    return loadSchema(fileURLToPath(uri))
+}
+
+/**
+ * Drops all compiled validators and registered schemas.
+ * Called whenever a schema file is written, since the change may affect
+ * any schema that references it.
+ */
+function invalidateValidators() {
+    validatorCache.clear()
+    ajv.removeSchema()
+}
+
+/**
+ * Replaces relative file $refs with the referenced schemas, so a stored schema
+ * can be compared with an inferred one (which never contains $refs).
+ * Local references ('#/...') are left untouched.
+ * 
+ * @param schema - Schema (or schema node) to resolve
+ * @param schemaPath - Path of the file the schema was read from
+ * @param resolving - Files currently being resolved, guards against circular references
+ * @returns Promise<any> - Schema without file references
+ */
+async function dereferenceSchema(schema: any, schemaPath: string, resolving: string[] = []): Promise<any> {
+    if (Array.isArray(schema)) {
+        return Promise.all(schema.map(item => dereferenceSchema(item, schemaPath, resolving)))
+    }
+    if (schema === null || typeof schema !== 'object') return schema
+
+    if (typeof schema.$ref === 'string' && !schema.$ref.startsWith('#')) {
+        const refPath = path.resolve(path.dirname(schemaPath), schema.$ref)
+        if (resolving.includes(refPath)) return schema
+        return dereferenceSchema(await loadSchema(refPath), refPath, [...resolving, refPath])
+    }
+
+    const resolved: any = {}
+    for (const [key, value] of Object.entries(schema)) {
+        resolved[key] = await dereferenceSchema(value, schemaPath, resolving)
+    }
+    return resolved
+}
+
+/**
+ * Derives the resource name of an endpoint from its URL: the first path segment
+ * after the API base path ('https://host/api/articles/slug' -> 'articles').
+ */
+function resourceOf(url: string) {
+    const basePath = new URL(config.apiUrl).pathname.replace(/\/+$/, '')
+    const pathname = new URL(url).pathname
+    const relativePath = pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname
+    return relativePath.split('/').filter(Boolean)[0] ?? ''
+}
+
 /**
  * Loads a JSON schema from the file system.
  * 
@@ -89,23 +305,146 @@ async function loadSchema(schemaPath: string) {
 }
 
 /**
- * Generates a new JSON schema from an API response body and saves it to file.
- * Uses genson-js library to automatically infer schema structure from data.
+ * Infers a JSON schema from a response body, including string formats.
+ * Uses genson-js for the structure, then enriches string properties with
+ * the formats enabled in config.schemaFormats (e.g. date-time, uri).
+ * 
+ * @param responseBody - The API response object to infer the schema from
+ * @returns object - The inferred JSON schema
+ * 
+ * Example:
+ * inferSchema({ createdAt: '2024-01-01T00:00:00.000Z' })
+ * // { type: 'object', properties: { createdAt: { type: 'string', format: 'date-time' } }, ... }
+ */
+export function inferSchema(responseBody: object) {
+    return addFormatToSchema(createSchema(responseBody), [responseBody])
+}
+
+/**
+ * Infers one JSON schema from several observed responses of the same endpoint.
+ * Types are merged (e.g. null and string become ['null', 'string']), only properties
+ * present in every sample stay required, and a format is only kept when every
+ * sampled value satisfies it.
+ * 
+ * @param responseBodies - All observed response bodies for one schema
+ * @returns object - The merged JSON schema
+ * 
+ * Example:
+ * inferMergedSchema([{ bio: null }, { bio: 'Hello' }])
+ * // { type: 'object', properties: { bio: { type: ['null', 'string'] } }, required: ['bio'] }
+ */
+export function inferMergedSchema(responseBodies: object[]) {
+    return addFormatToSchema(createCompoundSchema(responseBodies), responseBodies)
+}
+
+/**
+ * Appends a response body to the learning samples of a schema.
+ * Samples are stored on disk so tests in every worker contribute to the same schema.
+ * 
+ * @param dirName - Directory name under response-schemas (e.g., 'articles')
+ * @param fileName - Schema file name without extension (e.g., 'GET_articles')
+ * @param responseBody - The observed response body
+ */
+export async function recordSchemaSample(dirName: string, fileName: string, responseBody: object) {
+    const samplesPath = path.join(SCHEMA_SAMPLES_PATH, dirName, `${fileName}.jsonl`)
+    await fs.mkdir(path.dirname(samplesPath), {recursive: true})
+    await fs.appendFile(samplesPath, JSON.stringify(responseBody) + '\n')
+}
+
+/**
+ * Removes all learning samples. Called before a learning run starts.
+ */
+export async function clearSchemaSamples() {
+    await fs.rm(SCHEMA_SAMPLES_PATH, {recursive: true, force: true})
+}
+
+/**
+ * Compares a response body with its stored schema file without writing anything,
+ * the same comparison the create flag prints as a drift report.
+ * 
+ * @param dirName - Directory name under response-schemas (e.g., 'articles')
+ * @param fileName - Schema file name without extension (e.g., 'GET_articles')
+ * @param responseBody - The API response object to compare
+ * @returns Promise<SchemaChange[]> - Differences from the stored schema to the inferred one ([] when they agree)
+ * 
+ * Example Usage:
+ * - expect(await schemaDrift('articles', 'POST_articles', response)).toEqual([])
+ */
+export async function schemaDrift(dirName: string, fileName: string, responseBody: object): Promise<SchemaChange[]> {
+    const schemaPath = path.join(SCHEMA_BASE_PATH, dirName, `${fileName}_schema.json`)
+    return diffSchemas(await dereferenceSchema(await loadSchema(schemaPath), schemaPath), inferSchema(responseBody))
+}
+
+/**
+ * Merges the samples collected during a learning run and applies them to the
+ * schema files, using the same rules as regeneration (create if missing,
+ * drift report, overwrite only with UPDATE_SCHEMAS=true). Samples are removed afterwards.
+ * 
+ * @returns Promise<number> - Number of schemas that had samples
+ */
+export async function applyLearnedSchemas() {
+    const sampleFiles = (await fs.readdir(SCHEMA_SAMPLES_PATH, {recursive: true}).catch(() => [] as string[]))
+        .filter(file => file.endsWith('.jsonl'))
+
+    for (const sampleFile of sampleFiles) {
+        const content = await fs.readFile(path.join(SCHEMA_SAMPLES_PATH, sampleFile), 'utf-8')
+        const samples = content.split('\n').filter(Boolean).map(line => JSON.parse(line))
+
+        const schemaPath = path.join(SCHEMA_BASE_PATH, sampleFile.replace(/\.jsonl$/, '_schema.json'))
+        console.log(`Learned ${path.basename(schemaPath)} from ${samples.length} sample(s)`)
+        await regenerateSchema(inferMergedSchema(samples), schemaPath)
+    }
+
+    await clearSchemaSamples()
+    return sampleFiles.length
+}
+
+/**
+ * Applies a newly inferred schema to a schema file without silently overwriting it.
+ * 
+ * - Missing schema file: the inferred schema is written (first-time setup)
+ * - Existing schema file: the inferred schema is diffed against it and a drift report
+ *   is printed; the file is only overwritten when the UPDATE_SCHEMAS env var is 'true'
+ * 
+ * Note: inferred schemas are self-contained, so overwriting a file that used $ref
+ * replaces the references with inline shapes.
  * 
- * @param responseBody - The API response object to generate schema from
+ * @param inferredSchema - Schema inferred from one or more response bodies
+ * @param schemaPath - Full path of the schema file
+ */
+async function regenerateSchema(inferredSchema: object, schemaPath: string) {
+    const existingSchema = await loadSchema(schemaPath).catch(() => undefined)
+    if (!existingSchema) {
+        await generateNewSchema(inferredSchema, schemaPath)
+        return
+    }
+
+    /* Compare the shapes, not the file layout: inline any $ref'd shared schemas first */
+    const changes = diffSchemas(await dereferenceSchema(existingSchema, schemaPath), inferredSchema)
+    if (changes.length === 0) return
+
+    console.log(formatSchemaDiff(path.basename(schemaPath), changes))
+    if (process.env.UPDATE_SCHEMAS === 'true') {
+        await generateNewSchema(inferredSchema, schemaPath)
+        console.log(`Updated schema file: ${schemaPath}`)
+    } else {
+        console.log(`Schema file not updated. Re-run with UPDATE_SCHEMAS=true to write ${schemaPath}`)
+    }
+}
+
+/**
+ * Saves a generated JSON schema to file.
+ * 
+ * @param generatedSchema - Schema produced by inferSchema() or inferMergedSchema()
  * @param schemaPath - Full path where the schema file should be saved
- * @throws Error - If schema generation or file writing fails
+ * @throws Error - If file writing fails
  * 
  * Features:
  * - Automatically creates directory structure if it doesn't exist
- * - Infers data types, required fields, and structure
  * - Formats JSON with 4-space indentation for readability
  */
-async function generateNewSchema(responseBody: object, schemaPath: string) {
+async function generateNewSchema(generatedSchema: object, schemaPath: string) {
     try {
-        /* Generate schema using genson-js automatic inference */
-        const generatedSchema = createSchema(responseBody)
-        
         /* Create directory structure recursively if it doesn't exist */
         await fs.mkdir(path.dirname(schemaPath), {recursive: true})
         
@@ -114,24 +453,25 @@ async function generateNewSchema(responseBody: object, schemaPath: string) {
     } catch (error) {
         throw new Error(`Failed to create schema file: ${error.message}`)
     }
+
+    /* Compiled validators may be stale now */
+    invalidateValidators()
 }
 
 /**
- * ADVANCED SCHEMA ENHANCEMENT FUNCTIONS
+ * SCHEMA FORMAT ENHANCEMENT FUNCTIONS
  * 
- * The functions below are not currently used in the main validation flow,
- * but provide advanced capabilities for enhancing schemas with format information.
- * They can be integrated to create more sophisticated schema validation that
- * automatically detects and validates specific formats like dates, emails, URLs, etc.
+ * The functions below enrich generated schemas with format information so that
+ * AJV validates both structure AND format (malformed timestamps, URLs, etc.).
+ * They are applied by inferSchema() and inferMergedSchema() whenever a schema is generated.
  * 
- * To use these functions:
- * 1. Call addFormatToSchema() on your generated schema
- * 2. The enhanced schema will include format validations
- * 3. AJV will then validate both structure AND format
+ * Which formats are inferred is controlled by config.schemaFormats.
+ * A format is only added when every sampled value actually satisfies it,
+ * so a field named like a URL but holding an empty string stays a plain string.
  * 
  * Example Enhancement Flow:
  * const baseSchema = createSchema(responseBody)
- * const enhancedSchema = addFormatToSchema(baseSchema, responseBody)
+ * const enhancedSchema = addFormatToSchema(baseSchema, [responseBody])
  * // enhancedSchema now includes format: 'email', 'date-time', 'uri', etc.
  */
 
@@ -140,7 +480,7 @@ async function generateNewSchema(responseBody: object, schemaPath: string) {
  * This creates more strict validation by detecting common patterns.
  * 
  * @param schema - The base JSON schema object
- * @param responseBody - The sample response data to analyze
+ * @param samples - The sample values at this schema node (one per observed response)
  * @returns Enhanced schema with format information added
  * 
  * Supported Formats:
@@ -149,27 +489,28 @@ async function generateNewSchema(responseBody: object, schemaPath: string) {
  * - uri: URLs and URIs
  * - uuid: UUID identifiers
  */
-function addFormatToSchema(schema: any, responseBody: any): any {
+function addFormatToSchema(schema: any, samples: any[]): any {
     if (typeof schema !== 'object' || schema === null) {
         return schema
     }
 
-    /* Handle array schemas by enhancing the items schema */
-    if (schema.type === 'array' && schema.items) {
+    /* Handle array schemas by enhancing the items schema from every item of every sample */
+    if (hasType(schema, 'array') && schema.items) {
+        const itemSamples = samples.filter(Array.isArray).flat()
         return {
             ...schema,
-            items: addFormatToSchema(schema.items, Array.isArray(responseBody) ? responseBody[0] : undefined)
+            items: addFormatToSchema(schema.items, itemSamples)
         }
     }
 
     /* Handle object schemas by enhancing each property */
-    if (schema.type === 'object' && schema.properties) {
+    if (hasType(schema, 'object') && schema.properties) {
         const enhancedProperties = {}
         
         /* Process each property in the schema */
         for (const [key, value] of Object.entries(schema.properties)) {
-            const responseValue = responseBody?.[key]
-            enhancedProperties[key] = addFormatToProperty(key, value as any, responseValue)
+            const propertySamples = samples.map(sample => sample?.[key])
+            enhancedProperties[key] = addFormatToProperty(key, value as any, propertySamples)
         }
 
         return {
@@ -186,7 +527,7 @@ function addFormatToSchema(schema: any, responseBody: any): any {
  * 
  * @param fieldName - The property name to analyze
  * @param property - The property schema object
- * @param value - The actual value from the response
+ * @param values - The actual values from the sampled responses
  * @returns Enhanced property schema with format if detected
  * 
  * Detection Strategy:
@@ -194,67 +535,74 @@ function addFormatToSchema(schema: any, responseBody: any): any {
  * 2. Value format analysis (e.g., email regex, ISO date format)
  * 3. Combined analysis for higher accuracy
  */
-function addFormatToProperty(fieldName: string, property: any, value: any): any {
-    /* Skip if not a string type or already has format defined */
-    if (property.type !== 'string' || property.format) {
-        return addFormatToSchema(property, value)
+function addFormatToProperty(fieldName: string, property: any, values: any[]): any {
+    /* Only string samples decide the format; nulls of nullable strings are ignored */
+    const strings = values.filter(value => typeof value === 'string')
+
+    /* Skip if not a string type (nullable strings included), no string sample, or format already defined */
+    if (!hasType(property, 'string') || strings.length === 0 || property.format) {
+        return addFormatToSchema(property, values)
     }
 
     const lowerFieldName = fieldName.toLowerCase()
+    const enabledFormats: string[] = config.schemaFormats
+    const allMatch = (detector: (fieldName: string, value: any) => boolean) =>
+        strings.every(value => detector(lowerFieldName, value))
     
     /* Date/DateTime format detection */
-    if (isDateField(lowerFieldName, value)) {
+    if (enabledFormats.includes('date-time') && allMatch(isDateField)) {
         return { ...property, format: 'date-time' }
     }
 
     /* Email format detection */
-    if (isEmailField(lowerFieldName, value)) {
+    if (enabledFormats.includes('email') && allMatch(isEmailField)) {
         return { ...property, format: 'email' }
     }
 
     /* URL/URI format detection */
-    if (isUrlField(lowerFieldName, value)) {
+    if (enabledFormats.includes('uri') && allMatch(isUrlField)) {
         return { ...property, format: 'uri' }
     }
 
     /* UUID format detection */
-    if (isUuidField(lowerFieldName, value)) {
+    if (enabledFormats.includes('uuid') && allMatch(isUuidField)) {
         return { ...property, format: 'uuid' }
     }
 
     return property
 }
 
+/**
+ * Checks whether a schema node allows the given type, including union types
+ * such as ['string', 'null'] produced for nullable fields.
+ * 
+ * @param schema - Schema node to inspect
+ * @param type - JSON schema type name
+ * @returns true if the node's type is or includes the given type
+ */
+function hasType(schema: any, type: string): boolean {
+    return Array.isArray(schema.type) ? schema.type.includes(type) : schema.type === type
+}
+
 /**
  * Detects if a field represents a date/datetime value.
- * Uses both field name patterns and value format analysis.
+ * The value must be an ISO 8601 timestamp with a timezone (as required by AJV's
+ * date-time format); the pattern is specific enough that no field name hint is needed.
  * 
  * @param fieldName - Lowercase field name
  * @param value - The actual field value
  * @returns true if field appears to be a date/datetime
  */
 function isDateField(fieldName: string, value: any): boolean {
-    /* Common date field name patterns */
-    const dateFieldPatterns = [
-        'createdat', 'updatedat', 'deletedat', 'modifiedat',
-        'date', 'time', 'timestamp', 'datetime',
-        'expiry', 'expires', 'expiration'
-    ]
-    
-    /* Check if field name contains date-related terms */
-    const hasDateFieldName = dateFieldPatterns.some(pattern => 
-        fieldName.includes(pattern)
-    )
-
-    /* Check if value matches ISO 8601 date-time format */
-    const hasDateFormat = typeof value === 'string' && 
-        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(value)
-
-    return hasDateFieldName || hasDateFormat
+    /* Check if value matches ISO 8601 date-time format with timezone */
+    return typeof value === 'string' && 
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value)
 }
 
 /**
  * Detects if a field represents an email address.
+ * Requires both an email-like field name and an email-like value, so free text
+ * that happens to contain an '@' is not constrained.
  * 
  * @param fieldName - Lowercase field name
  * @param value - The actual field value
@@ -272,11 +620,12 @@ function isEmailField(fieldName: string, value: any): boolean {
     const hasEmailFormat = typeof value === 'string' && 
         /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
 
-    return hasEmailFieldName || hasEmailFormat
+    return hasEmailFieldName && hasEmailFormat
 }
 
 /**
  * Detects if a field represents a URL or URI.
+ * Requires both a URL-like field name and an http(s) value.
  * 
  * @param fieldName - Lowercase field name
  * @param value - The actual field value
@@ -295,29 +644,22 @@ function isUrlField(fieldName: string, value: any): boolean {
 
     /* Basic URL format validation (http/https) */
     const hasUrlFormat = typeof value === 'string' && 
-        /^https?:\/\/.+/.test(value)
+        /^https?:\/\/\S+$/.test(value)
 
-    return hasUrlFieldName || hasUrlFormat
+    return hasUrlFieldName && hasUrlFormat
 }
 
 /**
  * Detects if a field represents a UUID identifier.
+ * The value must be a canonical UUID; the pattern is specific enough that
+ * no field name hint is needed.
  * 
  * @param fieldName - Lowercase field name
  * @param value - The actual field value
  * @returns true if field appears to be a UUID
  */
 function isUuidField(fieldName: string, value: any): boolean {
-    /* Common UUID field name patterns */
-    const uuidFieldPatterns = ['id', 'uuid', 'guid']
-    
-    const hasUuidFieldName = uuidFieldPatterns.some(pattern => 
-        fieldName.includes(pattern)
-    )
-
     /* UUID format validation (standard UUID v1-v5 format) */
-    const hasUuidFormat = typeof value === 'string' && 
+    return typeof value === 'string' && 
         /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value)
-
-    return hasUuidFieldName || hasUuidFormat
-}
\ No newline at end of file
+}
@@ -0,0 +1,174 @@
+/**
+ * Token Cache Module
+ *
+ * Persists credentials obtained by login-based auth providers to a JSON file, so
+ * workers and later runs reuse them instead of logging in again - the API
+ * counterpart of Playwright's storageState for UI tests.
+ *
+ * Features:
+ * - Entries keyed by environment and user name ('dev:default', 'qa:reader')
+ * - Expiry taken from the provider (OAuth2 expires_in) or decoded from the JWT `exp` claim
+ * - Entries are reused until TOKEN_EXPIRY_MARGIN_MS before they expire
+ * - Entries are ignored when the user's resolved auth settings or the API URL changed since they were written
+ * - Only the first authenticate() call may use the cache; refreshes after a 401 always log in
+ *
+ * Enabled with config.tokenCache (TOKEN_CACHE=true); the file holds live secrets and is git-ignored.
+ *
+ * Usage (createAuthProvider wraps providers created for a user name):
+ * const provider = createAuthProvider(config.users.reader, 'reader')   // CachedAuthProvider keyed 'dev:reader'
+ * const credentials = await provider.authenticate()   // cached token or fresh login
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../api-test.config';
+import type { AuthCredentials, AuthProvider } from './auth-providers';
+
+/* Cached credentials are replaced when they expire within this window */
+export const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000
+
+/* One cached login */
+export type TokenCacheEntry = {
+    credentials: AuthCredentials
+    /* Epoch milliseconds after which the credentials are rejected */
+    expiresAt: number
+    /* Hash of the resolved auth settings and API URL the credentials were obtained with */
+    fingerprint: string
+}
+
+/* Content of the cache file, keyed by '{environment}:{user}' */
+export type TokenCache = Record<string, TokenCacheEntry>
+
+/**
+ * CachedAuthProvider Class
+ *
+ * Wraps a provider and reads/writes its credentials through the token cache file.
+ */
+export class CachedAuthProvider implements AuthProvider {
+    readonly scheme: string
+    private provider: AuthProvider
+    private key: string
+    private fingerprint: string
+    private cacheFile: string
+
+    /* Set after the first authenticate() call; later calls are refreshes and skip the cache */
+    private cacheChecked = false
+
+    /**
+     * @param provider - Provider performing the actual login
+     * @param key - Cache key, usually tokenCacheKey(user)
+     * @param settings - Resolved auth settings of the user (defaults applied) and the API URL, hashed to detect changed credentials
+     * @param cacheFile - Cache file path (default: config.tokenCacheFile)
+     */
+    constructor(provider: AuthProvider, key: string, settings: object, cacheFile: string = config.tokenCacheFile) {
+        this.provider = provider
+        this.scheme = provider.scheme
+        this.key = key
+        this.fingerprint = crypto.createHash('sha256').update(JSON.stringify(settings)).digest('hex')
+        this.cacheFile = cacheFile
+    }
+
+    async authenticate(): Promise<AuthCredentials> {
+        if (!this.cacheChecked) {
+            this.cacheChecked = true
+            const cached = (await readTokenCache(this.cacheFile))[this.key]
+            if (cached && cached.fingerprint === this.fingerprint && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+                return cached.credentials
+            }
+        }
+
+        const credentials = await this.provider.authenticate()
+        const expiresAt = tokenExpiry(credentials)
+        /* Credentials without a known expiry are not cached */
+        if (expiresAt) {
+            await updateTokenCache(this.cacheFile, cache => {
+                cache[this.key] = { credentials, expiresAt, fingerprint: this.fingerprint }
+            })
+        }
+        return credentials
+    }
+}
+
+/**
+ * Builds the cache key of a user in the current environment.
+ *
+ * @param user - User name ('default' for config.auth, otherwise a config.users name)
+ * @returns string - e.g. 'dev:reader'
+ */
+export function tokenCacheKey(user: string) {
+    return `${config.environment}:${user}`
+}
+
+/**
+ * Determines when credentials expire: the provider's expiresAt, otherwise the
+ * earliest `exp` claim of a JWT found in the credential headers or query parameters.
+ *
+ * @param credentials - Credentials returned by a provider
+ * @returns number | undefined - Epoch milliseconds, or undefined when unknown
+ */
+export function tokenExpiry(credentials: AuthCredentials): number | undefined {
+    if (credentials.expiresAt) return credentials.expiresAt
+
+    const values = [...Object.values(credentials.headers ?? {}), ...Object.values(credentials.query ?? {})]
+    const expiries = values
+        .flatMap(value => value.match(/eyJ[\w-]+\.[\w-]+\.[\w-]+/g) ?? [])
+        .map(jwt => {
+            try {
+                return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf-8')).exp
+            } catch (error) {
+                return undefined
+            }
+        })
+        .filter((exp): exp is number => typeof exp === 'number')
+    return expiries.length > 0 ? Math.min(...expiries) * 1000 : undefined
+}
+
+/**
+ * Reads the cache file.
+ *
+ * @param cacheFile - Cache file path (default: config.tokenCacheFile)
+ * @returns Promise<TokenCache> - Cached entries ({} when the file is missing or unreadable)
+ */
+export async function readTokenCache(cacheFile: string = config.tokenCacheFile): Promise<TokenCache> {
+    try {
+        return JSON.parse(await fs.readFile(cacheFile, 'utf-8'))
+    } catch (error) {
+        return {}
+    }
+}
+
+/**
+ * Removes cached entries, e.g. when the local mock server starts with a new signing secret.
+ *
+ * @param environment - Only remove this environment's entries (default: all entries)
+ * @param cacheFile - Cache file path (default: config.tokenCacheFile)
+ */
+export async function clearTokenCache(environment?: string, cacheFile: string = config.tokenCacheFile) {
+    await updateTokenCache(cacheFile, cache => {
+        for (const key of Object.keys(cache)) {
+            if (!environment || key.startsWith(`${environment}:`)) delete cache[key]
+        }
+    })
+}
+
+/* Pending cache update of this process; updates are chained so concurrent logins do not drop each other's entries */
+let cacheUpdates: Promise<void> = Promise.resolve()
+
+/**
+ * Read-modify-write of the cache file. The file is replaced atomically, so
+ * workers reading it concurrently never see a partial write.
+ */
+async function updateTokenCache(cacheFile: string, update: (cache: TokenCache) => void) {
+    const write = cacheUpdates.then(async () => {
+        const cache = await readTokenCache(cacheFile)
+        update(cache)
+        await fs.mkdir(path.dirname(cacheFile), { recursive: true })
+        const tempFile = `${cacheFile}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.tmp`
+        await fs.writeFile(tempFile, JSON.stringify(cache, null, 4))
+        await fs.rename(tempFile, cacheFile)
+    })
+    /* Keep the chain alive when a write fails; the caller still sees the error */
+    cacheUpdates = write.catch(() => {})
+    return write
+}
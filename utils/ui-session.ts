@@ -0,0 +1,49 @@
+/**
+ * UI Session Module
+ *
+ * Turns the API credentials into a browser storage state, so UI tests start
+ * logged in with the same token the `api` fixture uses instead of signing in
+ * through the form. The Conduit web app keeps its JWT in localStorage, so the
+ * state holds no cookies, only one localStorage entry for the UI origin.
+ *
+ * Usage (done by the storageState fixture in fixtures.ts):
+ * const storageState = buildUiStorageState(authToken.current)
+ * const context = await browser.newContext({ storageState })
+ */
+
+import { BrowserContextOptions } from '@playwright/test';
+import { config } from '../api-test.config';
+import type { AuthCredentials } from './auth-providers';
+
+/* Storage state object accepted by browser.newContext() and test.use() */
+export type UiStorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>
+
+/**
+ * Extracts the raw token from the credentials' Authorization header
+ * ('Token <jwt>' or 'Bearer <jwt>' become '<jwt>').
+ *
+ * @param credentials - Credentials from an AuthProvider
+ * @returns string | undefined - The token, or undefined for schemes without one (API key, basic)
+ */
+export function uiToken(credentials: AuthCredentials) {
+    const authorization = Object.entries(credentials.headers ?? {})
+        .find(([name]) => name.toLowerCase() === 'authorization')?.[1]
+    return authorization?.match(/^(?:Token|Bearer)\s+(.+)$/i)?.[1]
+}
+
+/**
+ * Builds a storage state that logs the web app in with the API token.
+ *
+ * @param credentials - Credentials from an AuthProvider (e.g. authToken.current)
+ * @param origin - Origin of the web app (default: config.uiUrl)
+ * @param storageKey - localStorage key the web app reads the token from (default: config.uiTokenStorageKey)
+ * @returns UiStorageState | undefined - The state, or undefined when the credentials carry no token
+ */
+export function buildUiStorageState(credentials: AuthCredentials, origin: string = config.uiUrl, storageKey: string = config.uiTokenStorageKey): UiStorageState | undefined {
+    const token = uiToken(credentials)
+    if (!token) return undefined
+    return {
+        cookies: [],
+        origins: [{ origin: new URL(origin).origin, localStorage: [{ name: storageKey, value: token }] }]
+    }
+}